@@ -1,7 +1,7 @@
-import React, { useEffect, useState, useRef } from 'react';
+import React, { useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { useSocket } from '../context/SocketContext';
 import { soundManager } from '../lib/SoundManager';
+import { usePhaseTimer } from '../hooks/usePhaseTimer';
 
 interface CountdownTimerProps {
   size?: 'sm' | 'md' | 'lg';
@@ -10,25 +10,9 @@ interface CountdownTimerProps {
 export const CountdownTimer: React.FC<CountdownTimerProps> = ({ 
   size = 'md' 
 }) => {
-  const socket = useSocket();
-  const [remaining, setRemaining] = useState(30);
-  const [total, setTotal] = useState(30);
-  const prevRemainingRef = useRef(30);
-
-  useEffect(() => {
-    if (!socket) return;
-
-    const handleTimerSync = (data: { remaining: number; total: number }) => {
-      setRemaining(data.remaining);
-      setTotal(data.total);
-    };
-
-    socket.on('timer_sync', handleTimerSync);
-
-    return () => {
-      socket.off('timer_sync', handleTimerSync);
-    };
-  }, [socket]);
+  const { remainingMs, paused } = usePhaseTimer();
+  const remaining = remainingMs / 1000;
+  const prevRemainingRef = useRef(remaining);
   
   // Play countdown sounds
   useEffect(() => {
@@ -44,6 +28,7 @@ export const CountdownTimer: React.FC<CountdownTimerProps> = ({
 
   // Determine state
   const getState = () => {
+    if (paused) return 'normal';
     if (remaining <= 5) return 'danger';
     if (remaining <= 10) return 'warning';
     return 'normal';
@@ -97,7 +82,7 @@ export const CountdownTimer: React.FC<CountdownTimerProps> = ({
         }}
         transition={{ duration: 0.5, repeat: Infinity }}
       >
-        {state === 'danger' ? '😱' : state === 'warning' ? '😰' : '⏰'}
+        {paused ? '⏸️' : state === 'danger' ? '😱' : state === 'warning' ? '😰' : '⏰'}
       </motion.div>
     </motion.div>
   );
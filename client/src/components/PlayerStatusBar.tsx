@@ -7,6 +7,7 @@ interface Player {
   score: number;
   hasLied?: boolean;
   hasVoted?: boolean;
+  away?: boolean;
 }
 
 interface PlayerStatusBarProps {
@@ -90,7 +91,8 @@ export const PlayerStatusBar: React.FC<PlayerStatusBarProps> = ({
                 <motion.div
                   className={`
                     avatar-cartoon ${getAvatarColor(player.name)}
-                    ${submitted ? 'submitted' : (phase !== 'lobby' && phase !== 'reveal') ? 'waiting' : ''}
+                    ${player.away ? 'opacity-40 grayscale' : ''}
+                    ${submitted ? 'submitted' : (!player.away && phase !== 'lobby' && phase !== 'reveal') ? 'waiting' : ''}
                   `}
                   animate={submitted ? {
                     scale: [1, 1.2, 1],
@@ -124,11 +126,13 @@ export const PlayerStatusBar: React.FC<PlayerStatusBarProps> = ({
                 {phase !== 'lobby' && phase !== 'reveal' && (
                   <motion.div
                     className="flex items-center gap-1"
-                    animate={!submitted ? { y: [0, -3, 0] } : {}}
+                    animate={!submitted && !player.away ? { y: [0, -3, 0] } : {}}
                     transition={{ duration: 0.5, repeat: Infinity }}
                   >
                     {submitted ? (
                       <span className="text-[#4ade80] text-xs font-fun">Done! ✨</span>
+                    ) : player.away ? (
+                      <span className="text-white/50 text-xs font-fun">💤 Away</span>
                     ) : (
                       <span className="text-white/50 text-xs font-fun">
                         {waitingEmojis[index % waitingEmojis.length]} Thinking...
@@ -1,8 +1,13 @@
 import React, { createContext, useContext, useEffect, useState, useRef } from 'react';
 import { io, Socket } from 'socket.io-client';
+import { phaseClock } from '../lib/PhaseClock';
+import { PROTOCOL_VERSION } from '../../../shared/protocol';
+import type { ClientToServerEvents, ServerToClientEvents } from '../../../shared/protocol';
+
+export type GameSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
 
 interface SocketContextType {
-  socket: Socket | null;
+  socket: GameSocket | null;
   isConnected: boolean;
   isReconnecting: boolean;
 }
@@ -41,7 +46,7 @@ const getServerUrl = () => {
 };
 
 export const SocketProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [socket, setSocket] = useState<Socket | null>(null);
+  const [socket, setSocket] = useState<GameSocket | null>(null);
   const [isConnected, setIsConnected] = useState(false);
   const [isReconnecting, setIsReconnecting] = useState(false);
 
@@ -53,7 +58,9 @@ export const SocketProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     const serverUrl = getServerUrl();
     console.log('🔌 Initializing socket connection to:', serverUrl);
 
-    const newSocket = io(serverUrl, {
+    const newSocket: GameSocket = io(serverUrl, {
+      // The server turns away clients built for another protocol version
+      auth: { protocolVersion: PROTOCOL_VERSION },
       // Aggressive reconnection settings for mobile Chrome
       reconnection: true,              // Enable auto-reconnection
       reconnectionAttempts: Infinity,  // Try indefinitely
@@ -155,16 +162,23 @@ export const SocketProvider: React.FC<{ children: React.ReactNode }> = ({ childr
 
     newSocket.on('connect_error', (error) => {
       console.error('❌ Connection error:', error.message);
+      // The server refused us outright (protocol version mismatch); retrying won't help
+      if (!newSocket.active) {
+        setIsReconnecting(false);
+        alert(error.message);
+        return;
+      }
       setIsReconnecting(true);
     });
 
-    newSocket.on('reconnect_attempt', (attempt) => {
+    // Reconnection events come from the underlying manager, not the socket
+    newSocket.io.on('reconnect_attempt', (attempt) => {
       reconnectAttemptsRef.current = attempt;
       console.log(`🔄 Reconnection attempt #${attempt}`);
       setIsReconnecting(true);
     });
 
-    newSocket.on('reconnect', (attemptNumber) => {
+    newSocket.io.on('reconnect', (attemptNumber) => {
       console.log(`✅ Reconnected after ${attemptNumber} attempt(s)`);
       setIsConnected(true);
       setIsReconnecting(false);
@@ -172,11 +186,11 @@ export const SocketProvider: React.FC<{ children: React.ReactNode }> = ({ childr
       startHeartbeat();
     });
 
-    newSocket.on('reconnect_error', (error) => {
+    newSocket.io.on('reconnect_error', (error) => {
       console.error('❌ Reconnection error:', error.message);
     });
 
-    newSocket.on('reconnect_failed', () => {
+    newSocket.io.on('reconnect_failed', () => {
       console.error('❌ Reconnection failed - all attempts exhausted');
       setIsReconnecting(false);
     });
@@ -209,6 +223,9 @@ export const SocketProvider: React.FC<{ children: React.ReactNode }> = ({ childr
 
     window.addEventListener('focus', handleFocus);
 
+    // Phase countdowns are kept in server time, so sync clocks on every connect
+    phaseClock.attach(newSocket);
+
     setSocket(newSocket);
 
     return () => {
@@ -1,2 +1,2 @@
 export { useSounds, useSoundOnChange, useCountdownSounds } from './useSounds';
-
+export { usePhaseTimer } from './usePhaseTimer';
@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react';
+import { phaseClock } from '../lib/PhaseClock';
+
+interface PhaseTimerView {
+  remainingMs: number;
+  totalMs: number;
+  paused: boolean;
+}
+
+const readClock = (stepMs: number): PhaseTimerView => ({
+  // Round up so a countdown shows 1 until the deadline, never 0 early
+  remainingMs: Math.ceil(phaseClock.getRemainingMs() / stepMs) * stepMs,
+  totalMs: phaseClock.getTotalMs(),
+  paused: phaseClock.isPaused(),
+});
+
+/**
+ * Hook for the current phase countdown
+ *
+ * Counts the server deadline down locally every animation frame, but only
+ * re-renders when the remaining time crosses a `stepMs` boundary.
+ */
+export function usePhaseTimer(stepMs: number = 1000) {
+  const [timer, setTimer] = useState(() => readClock(stepMs));
+
+  useEffect(() => {
+    let frame: number;
+    const update = () => {
+      const next = readClock(stepMs);
+      setTimer(prev =>
+        prev.remainingMs === next.remainingMs && prev.totalMs === next.totalMs && prev.paused === next.paused
+          ? prev
+          : next
+      );
+      frame = requestAnimationFrame(update);
+    };
+    update();
+    return () => cancelAnimationFrame(frame);
+  }, [stepMs]);
+
+  return timer;
+}
+
+export default usePhaseTimer;
@@ -0,0 +1,62 @@
+/**
+ * PhaseClock - the current phase countdown, in server time
+ *
+ * The server only sends the phase timer when its deadline changes (start,
+ * pause, resume, added time). A short ping handshake estimates how far our
+ * clock is from the server's, so every screen can count the deadline down
+ * locally and smoothly.
+ */
+
+import type { Socket } from 'socket.io-client';
+import type { ClientToServerEvents, PhaseTimer, ServerToClientEvents } from '../../../shared/protocol';
+
+// Handshake round trips per (re)connect; the fastest one wins
+const SYNC_SAMPLES = 5;
+const SYNC_SPACING_MS = 200;
+
+class PhaseClock {
+  private offset = 0; // Server time minus local time
+  private bestRoundTrip = Infinity;
+  private timer: PhaseTimer | null = null;
+
+  attach(socket: Socket<ServerToClientEvents, ClientToServerEvents>) {
+    socket.on('timer_sync', (timer: PhaseTimer) => {
+      this.timer = timer;
+    });
+
+    socket.on('clock_sync', ({ clientTime, serverTime }) => {
+      const roundTrip = Date.now() - clientTime;
+      if (roundTrip > this.bestRoundTrip) return;
+      this.bestRoundTrip = roundTrip;
+      // Assume the reply spent half the round trip in flight
+      this.offset = serverTime + roundTrip / 2 - Date.now();
+    });
+
+    socket.on('connect', () => this.sync(socket));
+    if (socket.connected) this.sync(socket);
+  }
+
+  private sync(socket: Socket<ServerToClientEvents, ClientToServerEvents>) {
+    this.bestRoundTrip = Infinity;
+    for (let i = 0; i < SYNC_SAMPLES; i++) {
+      setTimeout(() => socket.emit('clock_sync', { clientTime: Date.now() }), i * SYNC_SPACING_MS);
+    }
+  }
+
+  getRemainingMs(): number {
+    if (!this.timer) return 0;
+    if (this.timer.paused || this.timer.deadline === null) return this.timer.remainingMs;
+    return Math.max(0, this.timer.deadline - (Date.now() + this.offset));
+  }
+
+  getTotalMs(): number {
+    return this.timer?.totalMs ?? 0;
+  }
+
+  isPaused(): boolean {
+    return this.timer?.paused ?? false;
+  }
+}
+
+// Singleton instance
+export const phaseClock = new PhaseClock();
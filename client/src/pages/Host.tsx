@@ -3,6 +3,7 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { useSocket } from '../context/SocketContext';
 import { AudioStreamer } from '../lib/AudioStreamer';
 import { useSounds } from '../hooks/useSounds';
+import { usePhaseTimer } from '../hooks/usePhaseTimer';
 import { 
   Background, 
   Button, 
@@ -10,63 +11,59 @@ import {
   QuestionCard, 
   PlayerStatusBar 
 } from '../components';
+import type {
+  ContentFilter,
+  ContentRating,
+  FilterHit,
+  GameError,
+  GameSettings,
+  GameState,
+  LateJoinScore,
+  ModerationEntry,
+  Player,
+  PlayerResult,
+  RoundResult
+} from '../../../shared/protocol';
+import { TEXT_LIMITS } from '../../../shared/protocol';
 
-interface Player {
-  id: string;
-  name: string;
-  score: number;
-  hasLied: boolean;
-  hasVoted: boolean;
-}
-
-interface Lie {
-  id: string;
-  text: string;
-  isTruth: boolean;
-  author: string;
-}
-
-interface GameState {
-  state: 'LOBBY' | 'ROUND_INTRO' | 'LIE_INPUT' | 'VOTING' | 'REVEAL' | 'MINI_SCOREBOARD' | 'SCOREBOARD';
-  players: Player[];
-  currentQuestion: {
-    text: string;
-    category: string;
-    spokenText?: string;
-    answer?: string;
-  } | null;
-  lies: Lie[];
-  round: string;
-  roundNumber: number;
-  roundMultiplier: number;
-  questionInRound: number;
-  isFinalFibbage: boolean;
-  currentRevealId: string | null;
-  revealedIds: string[];
-  autoProgress: boolean;
-}
+// Lets a refreshed TV reclaim its room instead of creating a new one
+const STORAGE_KEY_HOST_ROOM = 'fibbage_host_room_code';
+const STORAGE_KEY_HOST_TOKEN = 'fibbage_host_token';
+const STORAGE_KEY_HOST_SETTINGS = 'fibbage_host_settings';
+
+// Options offered by the lobby settings panel
+const LENGTH_PRESETS = [
+  { label: 'Quick', emoji: '⚡', rounds: 2, questionsPerRound: 2 },
+  { label: 'Standard', emoji: '🎮', rounds: 3, questionsPerRound: 3 },
+  { label: 'Marathon', emoji: '🏃', rounds: 4, questionsPerRound: 4 },
+];
+const LIE_TIMER_OPTIONS = [30, 45, 60, 90];
+const VOTE_TIMER_OPTIONS = [20, 30, 45, 60];
+const LIKE_POINTS_OPTIONS = [0, 25, 50, 100];
+const MAX_PLAYER_OPTIONS = [4, 6, 8, 10, 12];
+const LATE_JOIN_SCORE_OPTIONS: { value: LateJoinScore; label: string }[] = [
+  { value: 'zero', label: '0️⃣ Zero' },
+  { value: 'lowest', label: '🐢 Lowest Score' },
+  { value: 'average', label: '⚖️ Average Score' },
+];
+const AUDIENCE_POINTS_OPTIONS = [0, 250, 500, 1000];
+const ADDED_TIME_SECONDS = 15;
+const CONTENT_RATING_OPTIONS: { value: ContentRating; label: string }[] = [
+  { value: 'family', label: '👪 Family' },
+  { value: 'standard', label: '😏 Standard' },
+  { value: 'spicy', label: '🌶️ Spicy' },
+];
+const CONTENT_FILTER_OPTIONS: { value: ContentFilter; label: string }[] = [
+  { value: 'off', label: '🙈 Off' },
+  { value: 'family', label: '🧼 Family' },
+  { value: 'strict', label: '🔒 Strict' },
+];
 
 // Timer Progress Bar - shows countdown as shrinking bar
 const TimerProgressBar = () => {
-  const socket = useSocket();
-  const [progress, setProgress] = useState(100);
-  const [remaining, setRemaining] = useState(30);
-
-  useEffect(() => {
-    if (!socket) return;
-
-    const handleTimerSync = (data: { remaining: number; total: number }) => {
-      setRemaining(data.remaining);
-      const pct = (data.remaining / data.total) * 100;
-      setProgress(pct);
-    };
-
-    socket.on('timer_sync', handleTimerSync);
-
-    return () => {
-      socket.off('timer_sync', handleTimerSync);
-    };
-  }, [socket]);
+  const { remainingMs, totalMs } = usePhaseTimer(100);
+  const remaining = remainingMs / 1000;
+  const progress = totalMs > 0 ? (remainingMs / totalMs) * 100 : 100;
 
   // Color based on time remaining
   const getBarColor = () => {
@@ -100,7 +97,7 @@ const TimerProgressBar = () => {
             ...(remaining <= 5 ? { x: [-2, 2, -2, 2, 0] } : {})
           }}
           transition={{ 
-            width: { duration: 0.5, ease: 'linear' },
+            width: { duration: 0.1, ease: 'linear' },
             x: { duration: 0.3, repeat: remaining <= 5 ? Infinity : 0 }
           }}
         />
@@ -109,6 +106,81 @@ const TimerProgressBar = () => {
   );
 };
 
+// Host controls for the running phase timer
+const TimerControls = ({ onPause, onResume, onAddTime }: { 
+  onPause: () => void; 
+  onResume: () => void; 
+  onAddTime: (seconds: number) => void;
+}) => {
+  const { paused } = usePhaseTimer();
+
+  return (
+    <>
+      <motion.button
+        className={`card-cartoon px-4 py-2 text-xl cursor-pointer transition-all ${paused ? 'ring-2 ring-yellow-400' : ''}`}
+        onClick={(e) => { e.stopPropagation(); if (paused) { onResume(); } else { onPause(); } }}
+        whileHover={{ scale: 1.1 }}
+        whileTap={{ scale: 0.95 }}
+        title={paused ? 'Resume Timer' : 'Pause Timer'}
+      >
+        {paused ? '⏯️' : '⏸️'}
+      </motion.button>
+      <motion.button
+        className="card-cartoon px-4 py-2 text-lg font-fun cursor-pointer"
+        onClick={(e) => { e.stopPropagation(); onAddTime(ADDED_TIME_SECONDS); }}
+        whileHover={{ scale: 1.1 }}
+        whileTap={{ scale: 0.95 }}
+        title={`Add ${ADDED_TIME_SECONDS} Seconds`}
+      >
+        +{ADDED_TIME_SECONDS}s
+      </motion.button>
+    </>
+  );
+};
+
+// Host controls for a broken question: replace it before voting, skip it
+// before it is scored, or void its points afterwards
+const QuestionControls = ({ 
+  state, 
+  scored, 
+  voided,
+  onReplace, 
+  onSkip, 
+  onVoid 
+}: { 
+  state: GameState['state']; 
+  scored: boolean; 
+  voided: boolean;
+  onReplace: () => void; 
+  onSkip: () => void; 
+  onVoid: () => void;
+}) => {
+  const canReplace = state === 'LIE_INPUT';
+  const canSkip = state === 'LIE_INPUT' || state === 'VOTING' || (state === 'REVEAL' && !scored);
+  const canVoid = (state === 'REVEAL' || state === 'MINI_SCOREBOARD') && scored && !voided;
+
+  const button = (label: string, title: string, onClick: () => void) => (
+    <motion.button
+      key={title}
+      className="card-cartoon px-4 py-2 text-xl cursor-pointer"
+      onClick={(e) => { e.stopPropagation(); onClick(); }}
+      whileHover={{ scale: 1.1 }}
+      whileTap={{ scale: 0.95 }}
+      title={title}
+    >
+      {label}
+    </motion.button>
+  );
+
+  return (
+    <>
+      {canReplace && button('🔄', 'Replace Question', onReplace)}
+      {canSkip && button('⏭️', 'Skip Question (No Points)', onSkip)}
+      {canVoid && button('🚫', 'Void Question Points', onVoid)}
+    </>
+  );
+};
+
 const LoadingScreen = () => (
   <motion.div 
     className="flex flex-col items-center justify-center h-screen"
@@ -149,6 +221,16 @@ const RoundIntroScreen = ({
 }) => {
   const roundNumber = gameState.roundNumber;
   const isFinal = gameState.isFinalFibbage;
+  const multiplier = gameState.roundMultiplier;
+  const points = `${gameState.truthPoints} pts for truth • ${gameState.foolPoints} pts per fool`;
+  
+  const getMultiplierSubtitle = () => {
+    if (roundNumber === 1) return "Let's Get Started!";
+    if (multiplier === 2) return "Double Trouble! 2X POINTS";
+    if (multiplier === 3) return "Triple Threat! 3X POINTS";
+    if (multiplier > 1) return `${multiplier}X POINTS!`;
+    return "Same Stakes, New Lies!";
+  };
   
   // Round-specific content
   const getRoundContent = () => {
@@ -157,51 +239,49 @@ const RoundIntroScreen = ({
         title: "THE FINAL FIBBAGE",
         subtitle: "One Question. One Chance.",
         emoji: "🏆",
-        points: "3000 pts for truth • 1500 pts per fool",
+        points,
         message: "Everything you've done leads to this moment. Winner takes all!",
         color: '#ffe66d',
         bgGradient: 'from-yellow-500/20 to-orange-500/20'
       };
     }
     
+    const common = {
+      title: `ROUND ${roundNumber}`,
+      subtitle: getMultiplierSubtitle(),
+      points
+    };
+    
     switch (roundNumber) {
       case 1:
         return {
-          title: "ROUND 1",
-          subtitle: "Let's Get Started!",
+          ...common,
           emoji: "🎮",
-          points: "1000 pts for truth • 500 pts per fool",
           message: "Write a convincing lie. Find the real answer!",
           color: '#38bdf8',
           bgGradient: 'from-blue-500/20 to-cyan-500/20'
         };
       case 2:
         return {
-          title: "ROUND 2",
-          subtitle: "Double Trouble! 2X POINTS",
+          ...common,
           emoji: "⚡",
-          points: "2000 pts for truth • 1000 pts per fool",
           message: "Stakes are higher! Think carefully!",
           color: '#a855f7',
           bgGradient: 'from-purple-500/20 to-pink-500/20'
         };
       case 3:
         return {
-          title: "ROUND 3",
-          subtitle: "Triple Threat! 3X POINTS",
+          ...common,
           emoji: "🔥",
-          points: "3000 pts for truth • 1500 pts per fool",
           message: "This is where legends are made!",
           color: '#ff6b35',
           bgGradient: 'from-orange-500/20 to-red-500/20'
         };
       default:
         return {
-          title: `ROUND ${roundNumber}`,
-          subtitle: "",
+          ...common,
           emoji: "🎯",
-          points: "",
-          message: "",
+          message: roundNumber === gameState.totalRounds ? "Last round before the finale!" : "Keep those lies coming!",
           color: '#ffe66d',
           bgGradient: 'from-yellow-500/20 to-orange-500/20'
         };
@@ -312,15 +392,34 @@ const RoundIntroScreen = ({
 };
 
 // Mini Scoreboard (after each question)
+const RankChange = ({ result }: { result: PlayerResult }) => {
+  const change = result.rankBefore - result.rankAfter;
+  if (change === 0) return null;
+  return (
+    <motion.span
+      className={`font-fun text-lg font-bold ${change > 0 ? 'text-green-700' : 'text-red-700'}`}
+      initial={{ y: change > 0 ? 10 : -10, opacity: 0 }}
+      animate={{ y: 0, opacity: 1 }}
+      transition={{ delay: 0.8, type: 'spring' }}
+    >
+      {change > 0 ? `▲${change}` : `▼${-change}`}
+    </motion.span>
+  );
+};
+
 const MiniScoreboardScreen = ({ 
   gameState, 
+  roundResult,
   onContinue 
 }: { 
   gameState: GameState;
+  roundResult: RoundResult | null;
   onContinue: () => void;
 }) => {
   const sortedPlayers = [...gameState.players].sort((a, b) => b.score - a.score);
   const medals = ['🥇', '🥈', '🥉'];
+  const resultFor = (playerId: string) =>
+    roundResult?.voided ? undefined : roundResult?.players.find(r => r.playerId === playerId);
   
   return (
     <motion.div 
@@ -349,8 +448,11 @@ const MiniScoreboardScreen = ({
           Score Check!
         </h2>
         <p className="text-xl font-fun text-white/60 mt-2">
-          Question {gameState.questionInRound} of 3 • {gameState.round}
+          Question {gameState.questionInRound} of {gameState.questionsInRound} • {gameState.round}
         </p>
+        {roundResult?.voided && (
+          <p className="text-xl font-fun text-[#ffe66d] mt-2">🚫 This question was voided, no points given</p>
+        )}
       </motion.div>
 
       {/* Leaderboard */}
@@ -376,20 +478,39 @@ const MiniScoreboardScreen = ({
                   {medals[index] || `#${index + 1}`}
                 </span>
                 <span className="font-fun text-xl font-bold">{player.name}</span>
+                {resultFor(player.id) && <RankChange result={resultFor(player.id)!} />}
+              </div>
+              <div className="flex items-center gap-3">
+                {!!resultFor(player.id)?.totalPoints && (
+                  <motion.span
+                    className="font-fun text-lg font-bold"
+                    initial={{ scale: 0 }}
+                    animate={{ scale: 1 }}
+                    transition={{ delay: 0.6 + index * 0.1, type: 'spring' }}
+                  >
+                    +{resultFor(player.id)!.totalPoints.toLocaleString()}
+                  </motion.span>
+                )}
+                <motion.span 
+                  className="score-cartoon"
+                  initial={{ scale: 0 }}
+                  animate={{ scale: 1 }}
+                  transition={{ delay: 0.3 + index * 0.1, type: 'spring' }}
+                >
+                  ⭐ {player.score.toLocaleString()}
+                </motion.span>
               </div>
-              <motion.span 
-                className="score-cartoon"
-                initial={{ scale: 0 }}
-                animate={{ scale: 1 }}
-                transition={{ delay: 0.3 + index * 0.1, type: 'spring' }}
-              >
-                ⭐ {player.score.toLocaleString()}
-              </motion.span>
             </motion.div>
           ))}
         </div>
       </div>
 
+      {gameState.queuedPlayers.length > 0 && (
+        <div className="text-xl font-fun text-white/70 mb-6">
+          🚪 Joining next question: {gameState.queuedPlayers.join(', ')}
+        </div>
+      )}
+
       {/* Continue button */}
       <motion.div
         initial={{ y: 30, opacity: 0 }}
@@ -407,130 +528,417 @@ const MiniScoreboardScreen = ({
   );
 };
 
+const OptionButton = ({ 
+  selected, 
+  onClick, 
+  children 
+}: { 
+  selected: boolean; 
+  onClick: () => void; 
+  children: React.ReactNode;
+}) => (
+  <motion.button
+    className={`card-cartoon px-4 py-2 font-fun text-lg cursor-pointer ${selected ? 'ring-4 ring-[#ffe66d]' : 'opacity-60'}`}
+    onClick={onClick}
+    whileHover={{ scale: 1.05 }}
+    whileTap={{ scale: 0.95 }}
+  >
+    {children}
+  </motion.button>
+);
+
+const SettingsRow = ({ label, children }: { label: string; children: React.ReactNode }) => (
+  <div className="mb-6">
+    <div className="text-lg font-fun text-white/70 mb-3 uppercase tracking-wider">{label}</div>
+    <div className="flex flex-wrap gap-3">{children}</div>
+  </div>
+);
+
+const describeSettings = (settings: GameSettings) => 
+  `${settings.rounds} rounds × ${settings.questionsPerRound} questions` +
+  `${settings.includeFinalFibbage ? ' + Final Fibbage' : ''}` +
+  ` • ${settings.lieInputSeconds}s to lie • ${settings.votingSeconds}s to vote`;
+
+// Pre-game settings, only editable while in the lobby
+const SettingsPanel = ({ 
+  settings, 
+  availableCategories,
+  onChange,
+  onClose
+}: { 
+  settings: GameSettings;
+  availableCategories: string[];
+  onChange: (changes: Partial<GameSettings>) => void;
+  onClose: () => void;
+}) => {
+  const toggleCategory = (category: string) => {
+    const categories = settings.categories.includes(category)
+      ? settings.categories.filter(c => c !== category)
+      : [...settings.categories, category];
+    onChange({ categories });
+  };
+
+  return (
+    <motion.div
+      className="fixed inset-0 z-[60] flex items-center justify-center bg-black/70 p-8"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={onClose}
+    >
+      <motion.div
+        className="card-cartoon p-10 w-full max-w-4xl max-h-full overflow-y-auto cursor-default"
+        initial={{ scale: 0.9, rotate: -2 }}
+        animate={{ scale: 1, rotate: 0 }}
+        exit={{ scale: 0.9 }}
+        transition={{ type: 'spring' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-4xl font-fun text-[#ffe66d] mb-8 text-center" style={{ textShadow: '3px 3px 0 #000' }}>
+          ⚙️ Game Settings
+        </h2>
+
+        <SettingsRow label="Game Length">
+          {LENGTH_PRESETS.map(preset => (
+            <OptionButton
+              key={preset.label}
+              selected={settings.rounds === preset.rounds && settings.questionsPerRound === preset.questionsPerRound}
+              onClick={() => onChange({ rounds: preset.rounds, questionsPerRound: preset.questionsPerRound })}
+            >
+              {preset.emoji} {preset.label} ({preset.rounds * preset.questionsPerRound})
+            </OptionButton>
+          ))}
+          <OptionButton
+            selected={settings.includeFinalFibbage}
+            onClick={() => onChange({ includeFinalFibbage: !settings.includeFinalFibbage })}
+          >
+            🏆 Final Fibbage {settings.includeFinalFibbage ? 'ON' : 'OFF'}
+          </OptionButton>
+        </SettingsRow>
+
+        <SettingsRow label="Time to Write a Lie">
+          {LIE_TIMER_OPTIONS.map(seconds => (
+            <OptionButton
+              key={seconds}
+              selected={settings.lieInputSeconds === seconds}
+              onClick={() => onChange({ lieInputSeconds: seconds })}
+            >
+              ✏️ {seconds}s
+            </OptionButton>
+          ))}
+        </SettingsRow>
+
+        <SettingsRow label="Time to Vote">
+          {VOTE_TIMER_OPTIONS.map(seconds => (
+            <OptionButton
+              key={seconds}
+              selected={settings.votingSeconds === seconds}
+              onClick={() => onChange({ votingSeconds: seconds })}
+            >
+              🎯 {seconds}s
+            </OptionButton>
+          ))}
+        </SettingsRow>
+
+        <SettingsRow label="Bonus per Like">
+          {LIKE_POINTS_OPTIONS.map(points => (
+            <OptionButton
+              key={points}
+              selected={settings.likePoints === points}
+              onClick={() => onChange({ likePoints: points })}
+            >
+              {points === 0 ? '🚫 None' : `👍 ${points}`}
+            </OptionButton>
+          ))}
+        </SettingsRow>
+
+        <SettingsRow label="Max Players (the rest join the audience)">
+          {MAX_PLAYER_OPTIONS.map(count => (
+            <OptionButton
+              key={count}
+              selected={settings.maxPlayers === count}
+              onClick={() => onChange({ maxPlayers: count })}
+            >
+              🎮 {count}
+            </OptionButton>
+          ))}
+        </SettingsRow>
+
+        <SettingsRow label="Audience Favourite Bonus">
+          {AUDIENCE_POINTS_OPTIONS.map(points => (
+            <OptionButton
+              key={points}
+              selected={settings.audiencePoints === points}
+              onClick={() => onChange({ audiencePoints: points })}
+            >
+              {points === 0 ? '🚫 None' : `👥 ${points}`}
+            </OptionButton>
+          ))}
+        </SettingsRow>
+
+        <SettingsRow label="Categories">
+          <OptionButton
+            selected={settings.categories.length === 0}
+            onClick={() => onChange({ categories: [] })}
+          >
+            🌍 Everything
+          </OptionButton>
+          {availableCategories.map(category => (
+            <OptionButton
+              key={category}
+              selected={settings.categories.includes(category)}
+              onClick={() => toggleCategory(category)}
+            >
+              {category}
+            </OptionButton>
+          ))}
+        </SettingsRow>
+
+        <SettingsRow label="Content Rating">
+          {CONTENT_RATING_OPTIONS.map(option => (
+            <OptionButton
+              key={option.value}
+              selected={settings.contentRating === option.value}
+              onClick={() => onChange({ contentRating: option.value })}
+            >
+              {option.label}
+            </OptionButton>
+          ))}
+        </SettingsRow>
+
+        <SettingsRow label="Name & Lie Filter">
+          {CONTENT_FILTER_OPTIONS.map(option => (
+            <OptionButton
+              key={option.value}
+              selected={settings.contentFilter === option.value}
+              onClick={() => onChange({ contentFilter: option.value })}
+            >
+              {option.label}
+            </OptionButton>
+          ))}
+        </SettingsRow>
+
+        <SettingsRow label="Late Joiners">
+          <OptionButton selected={settings.allowLateJoin} onClick={() => onChange({ allowLateJoin: true })}>
+            🚪 Welcome
+          </OptionButton>
+          <OptionButton selected={!settings.allowLateJoin} onClick={() => onChange({ allowLateJoin: false })}>
+            🔒 Locked Out
+          </OptionButton>
+        </SettingsRow>
+
+        {settings.allowLateJoin && (
+          <SettingsRow label="Late Joiners Start With">
+            {LATE_JOIN_SCORE_OPTIONS.map(option => (
+              <OptionButton
+                key={option.value}
+                selected={settings.lateJoinScore === option.value}
+                onClick={() => onChange({ lateJoinScore: option.value })}
+              >
+                {option.label}
+              </OptionButton>
+            ))}
+          </SettingsRow>
+        )}
+
+        <SettingsRow label="Players Who Don't Vote">
+          <OptionButton selected={settings.idleVote === 'random'} onClick={() => onChange({ idleVote: 'random' })}>
+            🎲 Random Vote
+          </OptionButton>
+          <OptionButton selected={settings.idleVote === 'abstain'} onClick={() => onChange({ idleVote: 'abstain' })}>
+            🙊 Abstain
+          </OptionButton>
+        </SettingsRow>
+
+        <SettingsRow label="AI Host Narration">
+          <OptionButton selected={settings.narration} onClick={() => onChange({ narration: true })}>
+            🎙️ On
+          </OptionButton>
+          <OptionButton selected={!settings.narration} onClick={() => onChange({ narration: false })}>
+            🤐 Off
+          </OptionButton>
+        </SettingsRow>
+
+        <div className="flex justify-center mt-4">
+          <button onClick={onClose} className="btn-cartoon btn-green text-2xl py-4 px-10">
+            ✅ Done
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
 const LobbyScreen = ({ 
   roomCode, 
   players, 
+  audienceCount,
+  settings,
+  availableCategories,
+  onUpdateSettings,
   onStart 
 }: { 
   roomCode: string; 
   players: Player[]; 
+  audienceCount: number;
+  settings?: GameSettings;
+  availableCategories: string[];
+  onUpdateSettings: (changes: Partial<GameSettings>) => void;
   onStart: () => void;
-}) => (
-  <motion.div 
-    className="flex flex-col items-center justify-center h-screen p-8"
-    initial={{ opacity: 0 }}
-    animate={{ opacity: 1 }}
-    exit={{ opacity: 0, scale: 0.9 }}
-  >
-    {/* Header decoration */}
-    <motion.div 
-      className="text-5xl mb-6"
-      animate={{ y: [0, -10, 0], rotate: [-5, 5, -5] }}
-      transition={{ duration: 2, repeat: Infinity }}
-    >
-      🎉 Join the Game! 🎉
-    </motion.div>
+}) => {
+  const [showSettings, setShowSettings] = useState(false);
 
-    {/* Room Code Display */}
+  return (
     <motion.div 
-      className="text-center mb-16"
-      initial={{ y: -50, opacity: 0 }}
-      animate={{ y: 0, opacity: 1 }}
-      transition={{ delay: 0.2, type: 'spring' }}
+      className="flex flex-col items-center justify-center h-screen p-8"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0, scale: 0.9 }}
     >
+      {/* Header decoration */}
       <motion.div 
-        className="text-2xl font-fun text-white/70 mb-4"
-        initial={{ opacity: 0 }}
-        animate={{ opacity: 1 }}
-        transition={{ delay: 0.4 }}
+        className="text-5xl mb-6"
+        animate={{ y: [0, -10, 0], rotate: [-5, 5, -5] }}
+        transition={{ duration: 2, repeat: Infinity }}
       >
-        Enter this code to play! 👇
+        🎉 Join the Game! 🎉
       </motion.div>
+
+      {/* Room Code Display */}
       <motion.div 
-        className="font-fun font-bold tracking-[0.3em]"
-        style={{
-          fontSize: 'clamp(4rem, 15vw, 12rem)',
-          color: '#ffe66d',
-          textShadow: '6px 6px 0 #ff6b35, 12px 12px 0 #ff6eb4, 18px 18px 0 rgba(0,0,0,0.3)',
-        }}
-        initial={{ scale: 0.5, opacity: 0 }}
-        animate={{ scale: 1, opacity: 1 }}
-        transition={{ delay: 0.3, type: 'spring', stiffness: 200 }}
+        className="text-center mb-16"
+        initial={{ y: -50, opacity: 0 }}
+        animate={{ y: 0, opacity: 1 }}
+        transition={{ delay: 0.2, type: 'spring' }}
       >
-        {roomCode}
+        <motion.div 
+          className="text-2xl font-fun text-white/70 mb-4"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 0.4 }}
+        >
+          Enter this code to play! 👇
+        </motion.div>
+        <motion.div 
+          className="font-fun font-bold tracking-[0.3em]"
+          style={{
+            fontSize: 'clamp(4rem, 15vw, 12rem)',
+            color: '#ffe66d',
+            textShadow: '6px 6px 0 #ff6b35, 12px 12px 0 #ff6eb4, 18px 18px 0 rgba(0,0,0,0.3)',
+          }}
+          initial={{ scale: 0.5, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          transition={{ delay: 0.3, type: 'spring', stiffness: 200 }}
+        >
+          {roomCode}
+        </motion.div>
       </motion.div>
-    </motion.div>
 
-    {/* Waiting for players */}
-    <motion.div 
-      className="card-cartoon p-10 mb-10 text-center w-full max-w-4xl"
-      initial={{ y: 50, opacity: 0, rotate: -2 }}
-      animate={{ y: 0, opacity: 1, rotate: 0 }}
-      transition={{ delay: 0.4, type: 'spring' }}
-    >
-      {players.length === 0 ? (
-        <motion.div className="space-y-6">
-          <motion.div
-            className="text-8xl"
-            animate={{ scale: [1, 1.2, 1], rotate: [-10, 10, -10] }}
-            transition={{ duration: 1.5, repeat: Infinity }}
-          >
-            👀
+      {/* Waiting for players */}
+      <motion.div 
+        className="card-cartoon p-10 mb-10 text-center w-full max-w-4xl"
+        initial={{ y: 50, opacity: 0, rotate: -2 }}
+        animate={{ y: 0, opacity: 1, rotate: 0 }}
+        transition={{ delay: 0.4, type: 'spring' }}
+      >
+        {players.length === 0 ? (
+          <motion.div className="space-y-6">
+            <motion.div
+              className="text-8xl"
+              animate={{ scale: [1, 1.2, 1], rotate: [-10, 10, -10] }}
+              transition={{ duration: 1.5, repeat: Infinity }}
+            >
+              👀
+            </motion.div>
+            <div className="text-3xl font-fun text-white/70">
+              Waiting for players to join...
+            </div>
           </motion.div>
-          <div className="text-3xl font-fun text-white/70">
-            Waiting for players to join...
-          </div>
-        </motion.div>
-      ) : (
-        <div className="space-y-8">
-          <div className="text-3xl font-fun text-white flex items-center justify-center gap-3">
-            <span className="text-4xl">🎮</span>
-            <span>{players.length} Player{players.length !== 1 ? 's' : ''} Ready!</span>
-            <span className="text-4xl">🎮</span>
-          </div>
+        ) : (
+          <div className="space-y-8">
+            <div className="text-3xl font-fun text-white flex items-center justify-center gap-3">
+              <span className="text-4xl">🎮</span>
+              <span>{players.length} Player{players.length !== 1 ? 's' : ''} Ready!</span>
+              <span className="text-4xl">🎮</span>
+            </div>
+            {audienceCount > 0 && (
+              <div className="text-xl font-fun text-white/70">
+                👥 +{audienceCount} in the audience
+              </div>
+            )}
           
-          <div className="flex justify-center gap-6 flex-wrap">
-            <AnimatePresence>
-              {players.map((player, index) => (
-                <motion.div
-                  key={player.id}
-                  className="speech-bubble text-2xl font-fun px-8 py-4"
-                  initial={{ scale: 0, rotate: -10 }}
-                  animate={{ scale: 1, rotate: 0 }}
-                  exit={{ scale: 0, rotate: 10 }}
-                  transition={{ delay: index * 0.1, type: 'spring' }}
-                  whileHover={{ scale: 1.05, rotate: 3 }}
-                >
-                  {player.name}
-                </motion.div>
-              ))}
-            </AnimatePresence>
+            <div className="flex justify-center gap-6 flex-wrap">
+              <AnimatePresence>
+                {players.map((player, index) => (
+                  <motion.div
+                    key={player.id}
+                    className="speech-bubble text-2xl font-fun px-8 py-4"
+                    initial={{ scale: 0, rotate: -10 }}
+                    animate={{ scale: 1, rotate: 0 }}
+                    exit={{ scale: 0, rotate: 10 }}
+                    transition={{ delay: index * 0.1, type: 'spring' }}
+                    whileHover={{ scale: 1.05, rotate: 3 }}
+                  >
+                    {player.name}
+                  </motion.div>
+                ))}
+              </AnimatePresence>
+            </div>
           </div>
-        </div>
-      )}
-    </motion.div>
+        )}
+      </motion.div>
 
-    {/* Start Button */}
-    <AnimatePresence>
-      {players.length > 0 && (
+      {/* Start Button */}
+      <AnimatePresence>
+        {players.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: 20, scale: 0.8 }}
+            animate={{ opacity: 1, y: 0, scale: 1 }}
+            exit={{ opacity: 0, y: 20 }}
+            transition={{ delay: 0.5, type: 'spring' }}
+            className="starburst"
+          >
+            <button 
+              onClick={onStart}
+              className="btn-cartoon btn-green text-3xl py-6 px-12"
+            >
+              🚀 Start Game! 🚀
+            </button>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Settings summary and panel toggle */}
+      {settings && (
         <motion.div
-          initial={{ opacity: 0, y: 20, scale: 0.8 }}
-          animate={{ opacity: 1, y: 0, scale: 1 }}
-          exit={{ opacity: 0, y: 20 }}
-          transition={{ delay: 0.5, type: 'spring' }}
-          className="starburst"
+          className="mt-8 flex items-center gap-4"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 0.6 }}
         >
+          <span className="text-xl font-fun text-white/60">{describeSettings(settings)}</span>
           <button 
-            onClick={onStart}
-            className="btn-cartoon btn-green text-3xl py-6 px-12"
+            onClick={(e) => { e.stopPropagation(); setShowSettings(true); }}
+            className="btn-cartoon btn-yellow text-lg py-2 px-6"
           >
-            🚀 Start Game! 🚀
+            ⚙️ Settings
           </button>
         </motion.div>
       )}
-    </AnimatePresence>
-  </motion.div>
-);
+
+      <AnimatePresence>
+        {showSettings && settings && (
+          <SettingsPanel
+            settings={settings}
+            availableCategories={availableCategories}
+            onChange={onUpdateSettings}
+            onClose={() => setShowSettings(false)}
+          />
+        )}
+      </AnimatePresence>
+    </motion.div>
+  );
+};
 
 const QuestionScreen = ({ 
   gameState, 
@@ -701,11 +1109,22 @@ const VotingScreen = ({ gameState }: { gameState: GameState }) => (
   </motion.div>
 );
 
+// What a player earned this question, e.g. "Truth +1000 • Fooled Bob +500 • 👍 +50"
+const describeResult = (result: PlayerResult) => {
+  const parts: string[] = [];
+  if (result.foundTruth) parts.push(`Truth +${result.truthPoints}`);
+  if (result.fooled.length > 0) parts.push(`Fooled ${result.fooled.join(', ')} +${result.foolPoints}`);
+  result.bonuses.forEach(bonus => parts.push(`${bonus.type === 'likes' ? '👍' : '👥'} +${bonus.points}`));
+  return parts.join(' • ');
+};
+
 const RevealScreen = ({ 
   gameState, 
+  roundResult,
   onNext 
 }: { 
   gameState: GameState; 
+  roundResult: RoundResult | null;
   onNext: () => void;
 }) => {
   const allRevealed = gameState.revealedIds.length >= gameState.lies.length;
@@ -788,8 +1207,30 @@ const RevealScreen = ({
                       ) : (
                         <span className="text-black">
                           🤥 Lie by: <span className="font-bold">{lie.author}</span>
+                          {lie.suggested && <span className="text-black/60"> (with help from the House 🤖)</span>}
                         </span>
                       )}
+                      {!!lie.voters?.length && (
+                        <div className="flex flex-wrap justify-center gap-2 mt-2">
+                          {lie.voters.map(voter => (
+                            <span
+                              key={`${voter.name}-${voter.pick}`}
+                              className="bg-black/10 border-2 border-black rounded-full px-3 text-base text-black"
+                            >
+                              {gameState.isFinalFibbage && (voter.pick === 'first' ? '🥇 ' : '🥈 ')}{voter.name}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                      {!!lie.likes && (
+                        <div className="text-black font-bold mt-1">👍 {lie.likes}</div>
+                      )}
+                      {!!gameState.audience.tally?.[lie.id] && (
+                        <div className="text-black font-bold mt-1">
+                          👥 {gameState.audience.tally[lie.id]} audience vote{gameState.audience.tally[lie.id] !== 1 ? 's' : ''}
+                          {gameState.audience.pickId === lie.id && ' • Audience pick! 📣'}
+                        </div>
+                      )}
                     </motion.div>
                   )}
                 </AnimatePresence>
@@ -809,6 +1250,43 @@ const RevealScreen = ({
         </motion.div>
       </div>
 
+      {/* Points earned this question, once the truth is out */}
+      <AnimatePresence>
+        {roundResult?.voided && (
+          <motion.div
+            className="flex-shrink-0 card-cartoon px-6 py-3 my-4 font-fun text-xl text-[#ffe66d]"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0 }}
+          >
+            🚫 Question voided, no points given
+          </motion.div>
+        )}
+        {roundResult && !roundResult.voided && (
+          <motion.div
+            className="flex-shrink-0 flex flex-wrap justify-center gap-3 my-4"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0 }}
+          >
+            {roundResult.players.filter(result => result.totalPoints > 0).map((result, index) => (
+              <motion.div
+                key={result.playerId}
+                className="card-cartoon px-4 py-2 font-fun text-center"
+                initial={{ scale: 0, rotate: -10 }}
+                animate={{ scale: 1, rotate: 0 }}
+                transition={{ delay: 0.2 + index * 0.15, type: 'spring' }}
+              >
+                <div className="text-lg font-bold">
+                  {result.name} <span className="text-[#4ade80]">+{result.totalPoints.toLocaleString()}</span>
+                </div>
+                <div className="text-sm text-white/70">{describeResult(result)}</div>
+              </motion.div>
+            ))}
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* Bottom: Next Button */}
       <div className="flex-shrink-0 flex justify-center">
         <AnimatePresence>
@@ -839,6 +1317,9 @@ const ScoreboardScreen = ({
 }) => {
   const sortedPlayers = [...gameState.players].sort((a, b) => b.score - a.score);
   const medals = ['🥇', '🥈', '🥉'];
+  // Crowd Favourite: whoever collected the most likes over the game (ties share it)
+  const mostLikes = Math.max(0, ...gameState.players.map(p => p.likesReceived));
+  const crowdFavourites = gameState.players.filter(p => mostLikes > 0 && p.likesReceived === mostLikes);
   
   return (
     <motion.div 
@@ -900,6 +1381,21 @@ const ScoreboardScreen = ({
         </div>
       </div>
 
+      {crowdFavourites.length > 0 && (
+        <motion.div
+          className="card-cartoon px-8 py-4 mb-8 text-center font-fun"
+          initial={{ scale: 0, rotate: -10 }}
+          animate={{ scale: 1, rotate: 0 }}
+          transition={{ delay: 0.4 + sortedPlayers.length * 0.15, type: 'spring' }}
+        >
+          <div className="text-xl text-white/70">💖 Crowd Favourite 💖</div>
+          <div className="text-3xl text-[#ffe66d] font-bold">
+            {crowdFavourites.map(p => p.name).join(' & ')}
+          </div>
+          <div className="text-lg text-white/70">👍 {mostLikes} likes</div>
+        </motion.div>
+      )}
+
       <motion.div
         initial={{ opacity: 0, y: 20 }}
         animate={{ opacity: 1, y: 0 }}
@@ -913,17 +1409,149 @@ const ScoreboardScreen = ({
   );
 };
 
+// Host-only controls over who is in the room and what reaches the screen
+const ModerationDrawer = ({ 
+  players, 
+  filterLog,
+  canStrike,
+  onKick, 
+  onRename, 
+  onStrike 
+}: { 
+  players: ModerationEntry[]; 
+  filterLog: FilterHit[];
+  canStrike: boolean;
+  onKick: (playerId: string, ban: boolean) => void;
+  onRename: (playerId: string, name: string) => void;
+  onStrike: (playerId: string) => void;
+}) => {
+  const [open, setOpen] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+
+  const submitRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (renamingId && newName.trim()) onRename(renamingId, newName.trim());
+    setRenamingId(null);
+  };
+
+  return (
+    <>
+      <motion.button
+        className="fixed bottom-6 right-6 z-[60] card-cartoon px-4 py-3 text-xl font-fun cursor-pointer"
+        onClick={() => setOpen(!open)}
+        whileHover={{ scale: 1.05 }}
+        whileTap={{ scale: 0.95 }}
+        title="Moderation"
+      >
+        🛡️ {open ? 'Close' : 'Moderate'}
+      </motion.button>
+
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            className="fixed top-0 right-0 bottom-0 z-[55] w-full max-w-md p-6 pb-24 overflow-y-auto"
+            style={{ background: '#1f1f3a', borderLeft: '4px solid #000' }}
+            initial={{ x: '100%' }}
+            animate={{ x: 0 }}
+            exit={{ x: '100%' }}
+            transition={{ type: 'spring', damping: 25 }}
+          >
+            <h2 className="text-3xl font-fun text-white mb-6" style={{ textShadow: '2px 2px 0 #000' }}>
+              🛡️ Moderation
+            </h2>
+
+            {players.length === 0 && (
+              <p className="text-white/60 font-fun text-lg">Nobody here yet.</p>
+            )}
+
+            <div className="space-y-4">
+              {players.map(player => (
+                <div key={player.id} className="card-cartoon p-4 font-fun">
+                  {renamingId === player.id ? (
+                    <form onSubmit={submitRename} className="flex gap-2 mb-3">
+                      <input
+                        className="input-cartoon flex-1 text-lg py-2"
+                        value={newName}
+                        onChange={(e) => setNewName(e.target.value)}
+                        maxLength={TEXT_LIMITS.nameLength}
+                        autoFocus
+                      />
+                      <button type="submit" className="btn-cartoon btn-green text-lg px-3 py-2">✅</button>
+                    </form>
+                  ) : (
+                    <div className="text-xl text-white mb-3">
+                      {player.name}
+                      {player.queued && <span className="text-sm text-white/50"> (next question)</span>}
+                    </div>
+                  )}
+
+                  {canStrike && player.lie && (
+                    <div className="flex items-center gap-2 mb-3">
+                      <span className="flex-1 text-[#ffe66d] lowercase">"{player.lie}"</span>
+                      <button onClick={() => onStrike(player.id)} className="btn-cartoon btn-pink text-sm px-3 py-1">
+                        🚫 Strike
+                      </button>
+                    </div>
+                  )}
+                  {canStrike && player.struck && (
+                    <div className="text-sm text-white/50 mb-3">Lie struck, a house lie took its place</div>
+                  )}
+
+                  <div className="flex flex-wrap gap-2">
+                    <button
+                      onClick={() => { setRenamingId(player.id); setNewName(player.name); }}
+                      className="btn-cartoon btn-blue text-sm px-3 py-1"
+                    >
+                      ✏️ Rename
+                    </button>
+                    <button onClick={() => onKick(player.id, false)} className="btn-cartoon btn-yellow text-sm px-3 py-1">
+                      👢 Kick
+                    </button>
+                    <button onClick={() => onKick(player.id, true)} className="btn-cartoon btn-pink text-sm px-3 py-1">
+                      ⛔ Kick & Ban
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {filterLog.length > 0 && (
+              <>
+                <h3 className="text-2xl font-fun text-white mt-8 mb-4" style={{ textShadow: '2px 2px 0 #000' }}>
+                  🧼 Filtered
+                </h3>
+                <div className="space-y-2">
+                  {[...filterLog].reverse().map(hit => (
+                    <div key={`${hit.time}-${hit.field}-${hit.playerName}`} className="text-white/70 font-fun text-base">
+                      {hit.playerName ?? 'Someone joining'}: {hit.field === 'name' ? 'name' : 'lie'} with "{hit.word}"
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </>
+  );
+};
+
 export const HostPage = () => {
   const socket = useSocket();
   const [roomCode, setRoomCode] = useState<string | null>(null);
   const [gameState, setGameState] = useState<GameState | null>(null);
   const hasJoined = useRef(false);
+  const hasRoom = useRef(false);
   const audioStreamerRef = useRef<AudioStreamer | null>(null);
   const [audioEnabled, setAudioEnabled] = useState(false);
   const [musicEnabled, setMusicEnabled] = useState(true);
   const [sfxEnabled, setSfxEnabled] = useState(true);
   const [autoProgress, setAutoProgress] = useState(false);
   const [isAudioPlaying, setIsAudioPlaying] = useState(false);
+  const [hostError, setHostError] = useState<string | null>(null);
+  // Comes with every game_state, so it survives a refresh or a reconnect
+  const roundResult = gameState?.roundResult ?? null;
   const prevStateRef = useRef<string | null>(null);
   const prevPlayersRef = useRef<number>(0);
   const prevRevealIndexRef = useRef<number>(-1);
@@ -989,17 +1617,39 @@ export const HostPage = () => {
   useEffect(() => {
     if (!socket || hasJoined.current) return;
 
-    socket.emit('join_host');
+    const joinAsHost = () => {
+      const savedSettings = localStorage.getItem(STORAGE_KEY_HOST_SETTINGS);
+      socket.emit('join_host', {
+        roomCode: localStorage.getItem(STORAGE_KEY_HOST_ROOM),
+        hostToken: localStorage.getItem(STORAGE_KEY_HOST_TOKEN),
+        // New rooms start with the settings this TV used last time
+        settings: savedSettings ? JSON.parse(savedSettings) : undefined
+      });
+    };
+
+    joinAsHost();
     hasJoined.current = true;
     
     audioStreamerRef.current = new AudioStreamer();
 
-    socket.on('room_created', ({ roomCode }) => {
+    socket.on('room_created', ({ roomCode, hostToken }: { roomCode: string; hostToken: string }) => {
+      hasRoom.current = true;
       setRoomCode(roomCode);
+      localStorage.setItem(STORAGE_KEY_HOST_ROOM, roomCode);
+      localStorage.setItem(STORAGE_KEY_HOST_TOKEN, hostToken);
     });
 
+    // A reconnected socket has a new id, so reclaim our room with the token
+    const handleReconnect = () => {
+      if (hasRoom.current) joinAsHost();
+    };
+    socket.on('connect', handleReconnect);
+
     socket.on('game_state', (state) => {
       setGameState(state);
+      // New rooms start with the settings this TV used last; the server's copy
+      // drops any change it refused
+      if (state.state === 'LOBBY') localStorage.setItem(STORAGE_KEY_HOST_SETTINGS, JSON.stringify(state.settings));
       // Mark audio as playing when we receive new state (Gemini will speak)
       setIsAudioPlaying(true);
     });
@@ -1014,12 +1664,34 @@ export const HostPage = () => {
     socket.on('audio_complete', () => {
       setIsAudioPlaying(false);
     });
+    
+    socket.on('error', ({ code, message }: GameError) => {
+      setHostError(message);
+      switch (code) {
+        // Our room is gone: forget it and open a fresh one
+        case 'ROOM_NOT_FOUND':
+        case 'ROOM_CLOSED':
+          localStorage.removeItem(STORAGE_KEY_HOST_ROOM);
+          localStorage.removeItem(STORAGE_KEY_HOST_TOKEN);
+          setGameState(null);
+          joinAsHost();
+          break;
+        // Another connection holds the host seat; reclaim it with our token
+        case 'NOT_HOST':
+          joinAsHost();
+          break;
+        // Settings, question controls, renames and dropped requests only need the message;
+        // the room's state is unchanged
+      }
+    });
 
     return () => {
       socket.off('room_created');
+      socket.off('connect', handleReconnect);
       socket.off('game_state');
       socket.off('audio_chunk');
       socket.off('audio_complete');
+      socket.off('error');
     };
   }, [socket]);
   
@@ -1057,13 +1729,75 @@ export const HostPage = () => {
     e.stopPropagation();
     const newState = !autoProgress;
     setAutoProgress(newState);
-    socket?.emit('set_auto_progress', { roomCode, enabled: newState });
+    if (roomCode) socket?.emit('set_auto_progress', { roomCode, enabled: newState });
+  };
+
+  const handlePauseTimer = () => {
+    if (roomCode) socket?.emit('pause_timer', { roomCode });
+  };
+
+  const handleResumeTimer = () => {
+    if (roomCode) socket?.emit('resume_timer', { roomCode });
+  };
+
+  const handleAddTime = (seconds: number) => {
+    if (roomCode) socket?.emit('add_time', { roomCode, seconds });
+  };
+
+  const handleReplaceQuestion = () => {
+    playSound('click');
+    if (roomCode) socket?.emit('replace_question', { roomCode });
+  };
+
+  const handleSkipQuestion = () => {
+    playSound('click');
+    if (roomCode) socket?.emit('skip_question', { roomCode });
+  };
+
+  const handleVoidQuestion = () => {
+    playSound('click');
+    if (roomCode) socket?.emit('void_question', { roomCode });
+  };
+
+  // Late join can be switched off mid-game, unlike the other settings
+  const toggleLateJoin = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!gameState) return;
+    if (roomCode) socket?.emit('set_late_join', { roomCode, enabled: !gameState.settings.allowLateJoin });
+  };
+
+  const handleUpdateSettings = (changes: Partial<GameSettings>) => {
+    if (!gameState) return;
+    playSound('click');
+    if (roomCode) socket?.emit('update_settings', { roomCode, settings: changes });
+  };
+
+  // Errors from the server are shown briefly, then dismissed
+  useEffect(() => {
+    if (!hostError) return;
+    const timeout = setTimeout(() => setHostError(null), 4000);
+    return () => clearTimeout(timeout);
+  }, [hostError]);
+
+  const handleKickPlayer = (playerId: string, ban: boolean) => {
+    playSound('click');
+    if (roomCode) socket?.emit('kick_player', { roomCode, playerId, ban });
+  };
+
+  const handleRenamePlayer = (playerId: string, name: string) => {
+    playSound('click');
+    if (roomCode) socket?.emit('rename_player', { roomCode, playerId, name });
+  };
+
+  const handleStrikeLie = (playerId: string) => {
+    playSound('click');
+    if (roomCode) socket?.emit('strike_lie', { roomCode, playerId });
   };
 
   const handleNext = (e?: React.MouseEvent) => {
     e?.stopPropagation();
     playSound('click');
-    socket?.emit('request_next', { roomCode });
+    if (roomCode) socket?.emit('request_next', { roomCode });
   };
 
   if (!roomCode) {
@@ -1097,7 +1831,7 @@ export const HostPage = () => {
         </div>
       </motion.div>
 
-      {/* Audio controls */}
+      {/* Audio and game controls */}
       <div className="fixed top-6 right-6 z-50 flex gap-3">
         <AnimatePresence>
           {!audioEnabled && (
@@ -1145,16 +1879,72 @@ export const HostPage = () => {
             >
               {autoProgress ? '▶️' : '⏸️'}
             </motion.button>
+            {gameState && gameState.state !== 'LOBBY' && (
+              <motion.button
+                className={`card-cartoon px-4 py-2 text-xl cursor-pointer transition-all ${gameState.settings.allowLateJoin ? 'ring-2 ring-green-400' : 'opacity-50'}`}
+                onClick={toggleLateJoin}
+                whileHover={{ scale: 1.1 }}
+                whileTap={{ scale: 0.95 }}
+                title={gameState.settings.allowLateJoin ? 'Late Join ON' : 'Late Join OFF'}
+              >
+                {gameState.settings.allowLateJoin ? '🚪' : '🔒'}
+              </motion.button>
+            )}
           </motion.div>
         )}
+
+        {/* Timer and question controls work whether or not sound is on */}
+        {gameState && (
+          <div className="flex gap-2">
+            {(gameState.state === 'LIE_INPUT' || gameState.state === 'VOTING') && (
+              <TimerControls onPause={handlePauseTimer} onResume={handleResumeTimer} onAddTime={handleAddTime} />
+            )}
+            <QuestionControls
+              state={gameState.state}
+              scored={!!roundResult}
+              voided={!!roundResult?.voided}
+              onReplace={handleReplaceQuestion}
+              onSkip={handleSkipQuestion}
+              onVoid={handleVoidQuestion}
+            />
+          </div>
+        )}
       </div>
 
+      <AnimatePresence>
+        {hostError && (
+          <motion.div
+            className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[70] card-cartoon px-6 py-3 text-lg font-fun text-[#ef4444]"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 20 }}
+          >
+            ⚠️ {hostError}
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {gameState && (gameState.state === 'LOBBY' || gameState.state === 'LIE_INPUT') && (
+        <ModerationDrawer
+          players={gameState.moderation ?? []}
+          filterLog={gameState.filterLog ?? []}
+          canStrike={gameState.state === 'LIE_INPUT'}
+          onKick={handleKickPlayer}
+          onRename={handleRenamePlayer}
+          onStrike={handleStrikeLie}
+        />
+      )}
+
       <AnimatePresence mode="wait">
         {(!gameState || gameState.state === 'LOBBY') && roomCode && (
           <LobbyScreen 
             key="lobby"
             roomCode={roomCode} 
             players={gameState?.players || []} 
+            audienceCount={gameState?.audience.count || 0}
+            settings={gameState?.settings}
+            availableCategories={gameState?.availableCategories || []}
+            onUpdateSettings={handleUpdateSettings}
             onStart={handleNext}
           />
         )}
@@ -1185,6 +1975,7 @@ export const HostPage = () => {
           <RevealScreen 
             key="reveal"
             gameState={gameState}
+            roundResult={roundResult}
             onNext={handleNext}
           />
         )}
@@ -1193,6 +1984,7 @@ export const HostPage = () => {
           <MiniScoreboardScreen 
             key="mini-scoreboard"
             gameState={gameState}
+            roundResult={roundResult}
             onContinue={handleNext}
           />
         )}
@@ -7,41 +7,31 @@ import {
   CountdownTimer,
   PlayerStatusBar 
 } from '../components';
-
-interface Player {
-  id: string;
-  name: string;
-  score: number;
-  hasLied: boolean;
-  hasVoted: boolean;
-}
-
-interface Lie {
-  id: string;
-  text: string;
-  isTruth: boolean;
-  author: string;
-}
-
-interface GameState {
-  state: 'LOBBY' | 'ROUND_INTRO' | 'LIE_INPUT' | 'VOTING' | 'REVEAL' | 'MINI_SCOREBOARD' | 'SCOREBOARD';
-  players: Player[];
-  currentQuestion: {
-    text: string;
-    category: string;
-    answer?: string;
-  } | null;
-  lies: Lie[];
-  round: string;
-  roundNumber: number;
-  roundMultiplier: number;
-  isFinalFibbage: boolean;
-  currentRevealId: string | null;
-  revealedIds: string[];
-}
+import type { GameError, GameState, Lie, Player, PlayerSession } from '../../../shared/protocol';
+import { TEXT_LIMITS } from '../../../shared/protocol';
 
 const STORAGE_KEY_ROOM = 'fibbage_room_code';
 const STORAGE_KEY_NAME = 'fibbage_player_name';
+const STORAGE_KEY_SESSION = 'fibbage_session_token';
+const STORAGE_KEY_DEVICE = 'fibbage_device_id';
+
+const clearStoredSession = () => {
+  localStorage.removeItem(STORAGE_KEY_ROOM);
+  localStorage.removeItem(STORAGE_KEY_NAME);
+  localStorage.removeItem(STORAGE_KEY_SESSION);
+};
+
+// This browser's own id. It outlives every session, so a host's ban still
+// holds once the session token has been cleared.
+const getDeviceId = () => {
+  let deviceId = localStorage.getItem(STORAGE_KEY_DEVICE);
+  if (!deviceId) {
+    const bytes = crypto.getRandomValues(new Uint8Array(16));
+    deviceId = Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+    localStorage.setItem(STORAGE_KEY_DEVICE, deviceId);
+  }
+  return deviceId;
+};
 
 const JoinScreen = ({ 
   onJoin,
@@ -128,7 +118,7 @@ const JoinScreen = ({
               setError('');
               onClearError?.();
             }}
-            maxLength={4}
+            maxLength={TEXT_LIMITS.roomCodeLength}
             autoComplete="off"
           />
         </div>
@@ -146,7 +136,7 @@ const JoinScreen = ({
               setName(e.target.value);
               setError('');
             }}
-            maxLength={20}
+            maxLength={TEXT_LIMITS.nameLength}
             autoComplete="off"
           />
         </div>
@@ -227,20 +217,65 @@ const LobbyWaitingScreen = ({ name, score }: { name: string; score: number }) =>
   </motion.div>
 );
 
+// Late joiners wait here until the next question starts
+const QueuedScreen = ({ name }: { name: string }) => (
+  <motion.div 
+    className="flex flex-col items-center justify-center min-h-screen p-6"
+    initial={{ opacity: 0 }}
+    animate={{ opacity: 1 }}
+  >
+    <motion.div
+      className="card-cartoon p-10 text-center"
+      initial={{ scale: 0.9, opacity: 0, rotate: -3 }}
+      animate={{ scale: 1, opacity: 1, rotate: 0 }}
+      transition={{ type: 'spring' }}
+    >
+      <motion.div
+        className="text-7xl mb-6"
+        animate={{ scale: [1, 1.2, 1] }}
+        transition={{ duration: 1.5, repeat: Infinity }}
+      >
+        🚪
+      </motion.div>
+      
+      <h2 className="text-4xl font-fun text-[#4ade80] mb-4" style={{ textShadow: '3px 3px 0 #000' }}>
+        You're In Next Question!
+      </h2>
+      
+      <p className="text-white text-xl font-fun">
+        Hang tight, <span className="text-[#ffe66d] font-bold">{name}</span>. The game is already going,
+        so you'll jump in when the next question starts. 👋
+      </p>
+    </motion.div>
+  </motion.div>
+);
+
 const LieInputScreen = ({ 
   question, 
   category,
   round,
   hasSubmitted,
+  submittedLie,
+  rejection,
+  suggestions,
   players,
-  onSubmit 
+  onSubmit,
+  onRequestSuggestions,
+  onPickSuggestion,
+  onClearRejection
 }: { 
   question: string;
   category?: string;
   round?: string;
   hasSubmitted: boolean;
+  submittedLie?: string;
+  rejection?: string | null;
+  suggestions: string[];
   players: Player[];
   onSubmit: (lie: string) => void;
+  onRequestSuggestions: () => void;
+  onPickSuggestion: (suggestion: string) => void;
+  onClearRejection: () => void;
 }) => {
   const [lieText, setLieText] = useState('');
 
@@ -276,9 +311,20 @@ const LieInputScreen = ({
           <h2 className="text-3xl font-fun text-[#4ade80] mb-3" style={{ textShadow: '2px 2px 0 #000' }}>
             Lie Submitted!
           </h2>
-          <p className="text-white/70 text-lg font-fun mb-6">
-            Nice one! 🤥 Waiting for others...
-          </p>
+          {submittedLie && (
+            <p className="text-[#ffe66d] text-xl font-fun mb-2 lowercase">
+              "{submittedLie}"
+            </p>
+          )}
+          {rejection ? (
+            <p className="text-[#ef4444] text-lg font-fun mb-6">
+              🙅 {rejection}
+            </p>
+          ) : (
+            <p className="text-white/70 text-lg font-fun mb-6">
+              Nice one! 🤥 Waiting for others...
+            </p>
+          )}
           
           <PlayerStatusBar players={players} phase="lie" />
         </motion.div>
@@ -351,14 +397,30 @@ const LieInputScreen = ({
             className="input-cartoon flex-1 min-h-[120px] resize-none text-lg"
             placeholder="Type your lie here..."
             value={lieText}
-            onChange={(e) => setLieText(e.target.value)}
-            maxLength={150}
+            onChange={(e) => {
+              setLieText(e.target.value);
+              onClearRejection();
+            }}
+            maxLength={TEXT_LIMITS.lieLength}
           />
           <div className="text-right text-sm text-white/50 mt-2 font-fun">
-            {lieText.length}/150
+            {lieText.length}/{TEXT_LIMITS.lieLength}
           </div>
         </div>
 
+        <AnimatePresence>
+          {rejection && (
+            <motion.div
+              className="text-[#ef4444] text-lg text-center font-fun p-3 bg-red-500/20 rounded-lg border-2 border-red-500"
+              initial={{ opacity: 0, height: 0 }}
+              animate={{ opacity: 1, height: 'auto' }}
+              exit={{ opacity: 0, height: 0 }}
+            >
+              🙅 {rejection}
+            </motion.div>
+          )}
+        </AnimatePresence>
+
         <button 
           type="submit" 
           className={`btn-cartoon btn-yellow w-full text-xl py-4 ${!lieText.trim() ? 'opacity-50 cursor-not-allowed' : ''}`}
@@ -366,61 +428,236 @@ const LieInputScreen = ({
         >
           📤 Submit Lie!
         </button>
+
+        {/* Lie For Me: pick one of the house's lies (worth fewer points) */}
+        {suggestions.length > 0 ? (
+          <motion.div
+            className="flex flex-col gap-2"
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+          >
+            <p className="text-sm font-fun text-white/60 text-center">
+              Pick one of mine (fewer points if it fools anyone):
+            </p>
+            {suggestions.map((suggestion) => (
+              <motion.button
+                key={suggestion}
+                type="button"
+                className="btn-cartoon btn-blue w-full text-lg py-3 lowercase"
+                onClick={() => onPickSuggestion(suggestion)}
+                whileTap={{ scale: 0.95 }}
+              >
+                🤖 {suggestion}
+              </motion.button>
+            ))}
+          </motion.div>
+        ) : (
+          <button
+            type="button"
+            className="btn-cartoon btn-blue w-full text-lg py-3"
+            onClick={onRequestSuggestions}
+          >
+            🎲 Lie For Me
+          </button>
+        )}
       </motion.form>
     </motion.div>
   );
 };
 
+const LikeButton = ({ lie, onToggleLike }: { lie: Lie; onToggleLike: (lieId: string) => void }) => (
+  <motion.button
+    type="button"
+    className={`btn-cartoon ${lie.likedByMe ? 'btn-pink' : 'btn-blue opacity-60'} text-xl px-4 py-3 flex-shrink-0`}
+    onClick={() => onToggleLike(lie.id)}
+    whileTap={{ scale: 0.8 }}
+    aria-label={lie.likedByMe ? 'Unlike' : 'Like'}
+  >
+    👍
+  </motion.button>
+);
+
+// Thumbs-up the funniest answers; open while voting and during the reveal
+const LikeList = ({ lies, onToggleLike }: { lies: Lie[]; onToggleLike: (lieId: string) => void }) => (
+  <div className="flex flex-col gap-2 w-full mt-6">
+    <p className="text-sm font-fun text-white/60 text-center">Like your favourite lies for bonus points!</p>
+    {lies.filter(lie => !lie.isMine).map(lie => (
+      <div key={lie.id} className="flex items-center gap-2">
+        <div className="answer-cartoon flex-1 text-left lowercase text-base py-3">{lie.text}</div>
+        <LikeButton lie={lie} onToggleLike={onToggleLike} />
+      </div>
+    ))}
+  </div>
+);
+
+const VoteSubmittedScreen = ({ 
+  lies, 
+  players, 
+  onToggleLike 
+}: { 
+  lies: Lie[]; 
+  players: Player[]; 
+  onToggleLike: (lieId: string) => void;
+}) => (
+  <motion.div 
+    className="flex flex-col items-center justify-center min-h-screen p-6 pt-20"
+    initial={{ opacity: 0 }}
+    animate={{ opacity: 1 }}
+  >
+    <motion.div
+      className="card-cartoon p-10 text-center"
+      initial={{ scale: 0.8, rotate: 5 }}
+      animate={{ scale: 1, rotate: 0 }}
+      transition={{ type: 'spring' }}
+    >
+      <motion.div
+        className="text-7xl mb-4"
+        initial={{ scale: 0 }}
+        animate={{ scale: 1 }}
+        transition={{ delay: 0.2, type: 'spring' }}
+      >
+        🎯
+      </motion.div>
+      
+      <h2 className="text-3xl font-fun text-[#38bdf8] mb-3" style={{ textShadow: '2px 2px 0 #000' }}>
+        Vote Submitted!
+      </h2>
+      <p className="text-white/70 text-lg font-fun mb-6">
+        Fingers crossed! 🤞
+      </p>
+      
+      <PlayerStatusBar players={players} phase="vote" />
+    </motion.div>
+
+    <LikeList lies={lies} onToggleLike={onToggleLike} />
+  </motion.div>
+);
+
 const VotingScreen = ({ 
   question,
   lies,
   hasVoted,
   players,
-  mySocketId,
-  onVote 
+  onVote,
+  onToggleLike
 }: { 
   question: string;
   lies: Lie[];
   hasVoted: boolean;
   players: Player[];
-  mySocketId?: string;
   onVote: (choiceId: string) => void;
+  onToggleLike: (lieId: string) => void;
 }) => {
   if (hasVoted) {
-    return (
+    return <VoteSubmittedScreen lies={lies} players={players} onToggleLike={onToggleLike} />;
+  }
+
+  return (
+    <motion.div 
+      className="flex flex-col min-h-screen p-6 pt-20"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+    >
+      {/* Timer */}
       <motion.div 
-        className="flex flex-col items-center justify-center min-h-screen p-6 pt-20"
+        className="flex justify-center mb-4"
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+      >
+        <CountdownTimer size="sm" />
+      </motion.div>
+
+      {/* Question */}
+      <motion.div
+        className="card-cartoon p-4 mb-4 text-center"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.1 }}
+      >
+        <h2 className="text-lg font-fun">{question}</h2>
+      </motion.div>
+
+      {/* Instruction */}
+      <motion.div
+        className="text-center text-[#ffe66d] font-fun text-xl mb-4 flex items-center justify-center gap-2"
         initial={{ opacity: 0 }}
         animate={{ opacity: 1 }}
+        transition={{ delay: 0.2 }}
       >
-        <motion.div
-          className="card-cartoon p-10 text-center"
-          initial={{ scale: 0.8, rotate: 5 }}
-          animate={{ scale: 1, rotate: 0 }}
-          transition={{ type: 'spring' }}
-        >
-          <motion.div
-            className="text-7xl mb-4"
-            initial={{ scale: 0 }}
-            animate={{ scale: 1 }}
-            transition={{ delay: 0.2, type: 'spring' }}
-          >
-            🎯
-          </motion.div>
-          
-          <h2 className="text-3xl font-fun text-[#38bdf8] mb-3" style={{ textShadow: '2px 2px 0 #000' }}>
-            Vote Submitted!
-          </h2>
-          <p className="text-white/70 text-lg font-fun mb-6">
-            Fingers crossed! 🤞
-          </p>
+        <span>🎯</span>
+        <span>Pick the TRUTH!</span>
+        <span>🎯</span>
+      </motion.div>
+
+      {/* Answer Options */}
+      <motion.div 
+        className="flex-1 flex flex-col gap-3"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        transition={{ delay: 0.3 }}
+      >
+        {lies.map((lie, index) => {
+          const isOwnLie = !!lie.isMine;
           
-          <PlayerStatusBar players={players} phase="vote" />
-        </motion.div>
+          return (
+            <div key={lie.id} className="flex items-center gap-2">
+              <motion.button
+                className={`
+                  answer-cartoon flex-1 text-left lowercase text-lg py-5
+                  ${isOwnLie ? 'opacity-40 cursor-not-allowed' : ''}
+                `}
+                onClick={() => !isOwnLie && onVote(lie.id)}
+                disabled={isOwnLie}
+                initial={{ opacity: 0, x: -30, rotate: -2 }}
+                animate={{ opacity: isOwnLie ? 0.4 : 1, x: 0, rotate: 0 }}
+                transition={{ delay: 0.1 * index, type: 'spring' }}
+                whileHover={!isOwnLie ? { scale: 1.02, rotate: 1 } : {}}
+                whileTap={!isOwnLie ? { scale: 0.98 } : {}}
+              >
+                {lie.text}
+                {isOwnLie && (
+                  <span className="text-sm text-black/50 ml-2 normal-case">(Your lie 🤫)</span>
+                )}
+              </motion.button>
+              {!isOwnLie && <LikeButton lie={lie} onToggleLike={onToggleLike} />}
+            </div>
+          );
+        })}
       </motion.div>
-    );
+    </motion.div>
+  );
+};
+
+// Final Fibbage: pick a first and a second choice, then lock both in
+const FinalVotingScreen = ({ 
+  question,
+  lies,
+  hasVoted,
+  players,
+  onVote,
+  onToggleLike
+}: { 
+  question: string;
+  lies: Lie[];
+  hasVoted: boolean;
+  players: Player[];
+  onVote: (picks: { first: string; second: string }) => void;
+  onToggleLike: (lieId: string) => void;
+}) => {
+  const [picks, setPicks] = useState<string[]>([]);
+
+  if (hasVoted) {
+    return <VoteSubmittedScreen lies={lies} players={players} onToggleLike={onToggleLike} />;
   }
 
+  // Tapping a picked answer drops it; otherwise it fills the next free pick
+  const togglePick = (lieId: string) => {
+    setPicks(current => current.includes(lieId)
+      ? current.filter(id => id !== lieId)
+      : current.length < 2 ? [...current, lieId] : current
+    );
+  };
+
   return (
     <motion.div 
       className="flex flex-col min-h-screen p-6 pt-20"
@@ -448,14 +685,13 @@ const VotingScreen = ({
 
       {/* Instruction */}
       <motion.div
-        className="text-center text-[#ffe66d] font-fun text-xl mb-4 flex items-center justify-center gap-2"
+        className="text-center text-[#ffe66d] font-fun text-xl mb-4"
         initial={{ opacity: 0 }}
         animate={{ opacity: 1 }}
         transition={{ delay: 0.2 }}
       >
-        <span>🎯</span>
-        <span>Pick the TRUTH!</span>
-        <span>🎯</span>
+        {picks.length === 0 ? '🥇 Pick your FIRST choice!' : '🥈 Now pick your SECOND choice!'}
+        <div className="text-sm text-white/60">Second choice scores half points</div>
       </motion.div>
 
       {/* Answer Options */}
@@ -466,36 +702,54 @@ const VotingScreen = ({
         transition={{ delay: 0.3 }}
       >
         {lies.map((lie, index) => {
-          const isOwnLie = lie.id === mySocketId;
+          const isOwnLie = !!lie.isMine;
+          const pickIndex = picks.indexOf(lie.id);
           
           return (
-            <motion.button
-              key={lie.id}
-              className={`
-                answer-cartoon text-left lowercase text-lg py-5
-                ${isOwnLie ? 'opacity-40 cursor-not-allowed' : ''}
-              `}
-              onClick={() => !isOwnLie && onVote(lie.id)}
-              disabled={isOwnLie}
-              initial={{ opacity: 0, x: -30, rotate: -2 }}
-              animate={{ opacity: isOwnLie ? 0.4 : 1, x: 0, rotate: 0 }}
-              transition={{ delay: 0.1 * index, type: 'spring' }}
-              whileHover={!isOwnLie ? { scale: 1.02, rotate: 1 } : {}}
-              whileTap={!isOwnLie ? { scale: 0.98 } : {}}
-            >
-              {lie.text}
-              {isOwnLie && (
-                <span className="text-sm text-black/50 ml-2 normal-case">(Your lie 🤫)</span>
-              )}
-            </motion.button>
+            <div key={lie.id} className="flex items-center gap-2">
+              <motion.button
+                className={`
+                  answer-cartoon flex-1 text-left lowercase text-lg py-5
+                  ${isOwnLie ? 'opacity-40 cursor-not-allowed' : ''}
+                  ${pickIndex >= 0 ? 'selected' : ''}
+                `}
+                onClick={() => !isOwnLie && togglePick(lie.id)}
+                disabled={isOwnLie}
+                initial={{ opacity: 0, x: -30, rotate: -2 }}
+                animate={{ opacity: isOwnLie ? 0.4 : 1, x: 0, rotate: 0 }}
+                transition={{ delay: 0.1 * index, type: 'spring' }}
+                whileTap={!isOwnLie ? { scale: 0.98 } : {}}
+              >
+                {pickIndex >= 0 && <span className="mr-2">{pickIndex === 0 ? '🥇' : '🥈'}</span>}
+                {lie.text}
+                {isOwnLie && (
+                  <span className="text-sm text-black/50 ml-2 normal-case">(Your lie 🤫)</span>
+                )}
+              </motion.button>
+              {!isOwnLie && <LikeButton lie={lie} onToggleLike={onToggleLike} />}
+            </div>
           );
         })}
       </motion.div>
+
+      <button 
+        className={`btn-cartoon btn-yellow w-full text-xl py-4 mt-4 ${picks.length < 2 ? 'opacity-50 cursor-not-allowed' : ''}`}
+        disabled={picks.length < 2}
+        onClick={() => onVote({ first: picks[0], second: picks[1] })}
+      >
+        🔒 Lock In Both Picks!
+      </button>
     </motion.div>
   );
 };
 
-const RevealWaitingScreen = () => (
+const RevealWaitingScreen = ({ 
+  lies, 
+  onToggleLike 
+}: { 
+  lies: Lie[]; 
+  onToggleLike: (lieId: string) => void;
+}) => (
   <motion.div 
     className="flex flex-col items-center justify-center min-h-screen p-6"
     initial={{ opacity: 0 }}
@@ -525,20 +779,38 @@ const RevealWaitingScreen = () => (
         🔍 The results are being revealed...
       </p>
     </motion.div>
+
+    <LikeList lies={lies} onToggleLike={onToggleLike} />
   </motion.div>
 );
 
 // Round Intro waiting screen for players
-const RoundIntroWaitingScreen = ({ roundNumber, isFinal }: { roundNumber: number; isFinal: boolean }) => {
+const RoundIntroWaitingScreen = ({ 
+  roundNumber, 
+  multiplier,
+  isFinal,
+  truthPoints,
+  foolPoints
+}: { 
+  roundNumber: number; 
+  multiplier: number;
+  isFinal: boolean;
+  truthPoints: number;
+  foolPoints: number;
+}) => {
   const getRoundInfo = () => {
     if (isFinal) {
       return { emoji: '🏆', title: 'Final Fibbage!', color: '#ffe66d' };
     }
+    const suffix = multiplier === 2 ? ' - Double Points!'
+      : multiplier === 3 ? ' - Triple Points!'
+      : multiplier > 1 ? ` - ${multiplier}X Points!`
+      : '!';
     switch (roundNumber) {
-      case 1: return { emoji: '🎮', title: 'Round 1!', color: '#38bdf8' };
-      case 2: return { emoji: '⚡', title: 'Round 2 - Double Points!', color: '#a855f7' };
-      case 3: return { emoji: '🔥', title: 'Round 3 - Triple Points!', color: '#ff6b35' };
-      default: return { emoji: '🎯', title: `Round ${roundNumber}`, color: '#ffe66d' };
+      case 1: return { emoji: '🎮', title: `Round 1${suffix}`, color: '#38bdf8' };
+      case 2: return { emoji: '⚡', title: `Round 2${suffix}`, color: '#a855f7' };
+      case 3: return { emoji: '🔥', title: `Round 3${suffix}`, color: '#ff6b35' };
+      default: return { emoji: '🎯', title: `Round ${roundNumber}${suffix}`, color: '#ffe66d' };
     }
   };
   
@@ -573,6 +845,9 @@ const RoundIntroWaitingScreen = ({ roundNumber, isFinal }: { roundNumber: number
         >
           {info.title}
         </h2>
+        <p className="text-white text-lg font-fun mb-2">
+          {truthPoints} pts for truth • {foolPoints} pts per fool
+        </p>
         <p className="text-white/70 text-lg font-fun">
           Get ready... 🎯
         </p>
@@ -617,18 +892,132 @@ const MiniScoreboardWaitingScreen = ({ score, name }: { score: number; name: str
   </motion.div>
 );
 
+// Shown over everything while the host's screen is gone; the game is paused server-side
+const HostAwayOverlay = () => (
+  <motion.div
+    className="fixed inset-0 z-[60] flex items-center justify-center p-6 bg-black/70"
+    initial={{ opacity: 0 }}
+    animate={{ opacity: 1 }}
+    exit={{ opacity: 0 }}
+  >
+    <motion.div
+      className="card-cartoon p-10 text-center"
+      initial={{ scale: 0.9, rotate: -3 }}
+      animate={{ scale: 1, rotate: 0 }}
+      transition={{ type: 'spring' }}
+    >
+      <motion.div
+        className="text-7xl mb-4"
+        animate={{ rotate: [-10, 10, -10] }}
+        transition={{ duration: 1.5, repeat: Infinity }}
+      >
+        📺
+      </motion.div>
+      <h2 className="text-3xl font-fun text-[#ffe66d] mb-3" style={{ textShadow: '2px 2px 0 #000' }}>
+        Waiting for Host...
+      </h2>
+      <p className="text-white/70 text-lg font-fun">
+        The game is paused until the big screen reconnects ⏸️
+      </p>
+    </motion.div>
+  </motion.div>
+);
+
+// Spectators past the player cap: they follow along and vote on a separate
+// audience tally. The server only sends aggregated state, so our own vote is
+// remembered locally.
+const AudienceScreen = ({ 
+  gameState, 
+  onVote 
+}: { 
+  gameState: GameState; 
+  onVote: (choiceId: string) => void;
+}) => {
+  const [voteId, setVoteId] = useState<string | null>(null);
+  const question = gameState.currentQuestion?.text;
+
+  // A new question clears our vote
+  useEffect(() => {
+    setVoteId(null);
+  }, [question]);
+
+  const handleVote = (choiceId: string) => {
+    setVoteId(choiceId);
+    onVote(choiceId);
+  };
+
+  return (
+    <motion.div 
+      className="flex flex-col min-h-screen p-6 pt-20"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+    >
+      <div className="text-center font-fun text-white/70 mb-4">
+        👥 You're in the audience ({gameState.audience.count} watching)
+      </div>
+
+      {question && (
+        <div className="card-cartoon p-4 mb-4 text-center">
+          <h2 className="text-lg font-fun">{question}</h2>
+        </div>
+      )}
+
+      {gameState.state === 'VOTING' ? (
+        <div className="flex-1 flex flex-col gap-3">
+          <CountdownTimer size="sm" />
+          <div className="text-center text-[#ffe66d] font-fun text-xl">
+            🎯 Which one is the TRUTH?
+          </div>
+          {gameState.lies.map(lie => (
+            <motion.button
+              key={lie.id}
+              className={`answer-cartoon text-left lowercase text-lg py-5 ${voteId === lie.id ? 'selected' : ''}`}
+              onClick={() => handleVote(lie.id)}
+              whileTap={{ scale: 0.98 }}
+            >
+              {lie.text}
+            </motion.button>
+          ))}
+        </div>
+      ) : (
+        <div className="flex-1 flex flex-col items-center justify-center">
+          <div className="card-cartoon p-10 text-center">
+            <motion.div
+              className="text-7xl mb-4"
+              animate={{ scale: [1, 1.2, 1] }}
+              transition={{ duration: 1.5, repeat: Infinity }}
+            >
+              {gameState.state === 'REVEAL' ? '👀' : '🍿'}
+            </motion.div>
+            <p className="text-white/70 text-lg font-fun">
+              {gameState.state === 'LIE_INPUT'
+                ? 'The players are writing their lies...'
+                : gameState.state === 'REVEAL'
+                  ? 'Look at the screen!'
+                  : 'Sit back and enjoy the show!'}
+            </p>
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
 export const PlayerPage = () => {
   const socket = useSocket();
   const [joined, setJoined] = useState(false);
   const [name, setName] = useState('');
   const [roomCode, setRoomCode] = useState('');
   const [gameState, setGameState] = useState<GameState | null>(null);
+  const [isAudience, setIsAudience] = useState(false);
   const [isReconnecting, setIsReconnecting] = useState(false);
   const [reconnectError, setReconnectError] = useState<string | null>(null);
+  const [lieRejection, setLieRejection] = useState<string | null>(null);
   const [storedRoomCode, setStoredRoomCode] = useState<string | null>(null);
   const [storedName, setStoredName] = useState<string | null>(null);
   const prevStateRef = useRef<string | null>(null);
   const reconnectAttempted = useRef(false);
+  const lastJoinRef = useRef({ roomCode: '', name: '' }); // Prefills the join form if the server turns us away
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   
   const { playSound, resumeAudio } = useSounds();
@@ -652,14 +1041,12 @@ export const PlayerPage = () => {
       reconnectAttempted.current = true;
       setIsReconnecting(true);
       
-      // Set timeout for room check - if no response in 5 seconds, assume room is gone
+      // No answer in 5 seconds: the server may be restarting, and a restored
+      // room still knows our token, so keep it for the next try. Only the
+      // server saying the room or our seat is gone clears it.
       reconnectTimeoutRef.current = setTimeout(() => {
         setIsReconnecting(false);
         setReconnectError('Could not reach the game server. Please try again.');
-        localStorage.removeItem(STORAGE_KEY_ROOM);
-        localStorage.removeItem(STORAGE_KEY_NAME);
-        setStoredRoomCode(null);
-        setStoredName(null);
       }, 5000);
       
       // Check if room is still active
@@ -688,17 +1075,18 @@ export const PlayerPage = () => {
       
       if (active) {
         const savedName = localStorage.getItem(STORAGE_KEY_NAME);
+        const savedToken = localStorage.getItem(STORAGE_KEY_SESSION);
         if (savedName) {
-          // Room is active, reconnect automatically
+          // Room is active, resume our seat with the session token
           setName(savedName);
           setRoomCode(code);
-          socket.emit('join_player', { roomCode: code, playerName: savedName });
+          lastJoinRef.current = { roomCode: code, name: savedName };
+          socket.emit('join_player', { roomCode: code, playerName: savedName, sessionToken: savedToken, deviceId: getDeviceId() });
           setJoined(true);
         }
       } else {
         // Room no longer exists, clear storage and show error
-        localStorage.removeItem(STORAGE_KEY_ROOM);
-        localStorage.removeItem(STORAGE_KEY_NAME);
+        clearStoredSession();
         setStoredRoomCode(null);
         setStoredName(null);
         setReconnectError('Game room no longer exists. Please join a new game.');
@@ -723,6 +1111,7 @@ export const PlayerPage = () => {
     if (prevState !== currentState) {
       switch (currentState) {
         case 'LIE_INPUT':
+          setLieRejection(null);
           playSound('whoosh');
           if (prevState === 'LOBBY') {
             playSound('gameStart');
@@ -746,26 +1135,113 @@ export const PlayerPage = () => {
     if (!socket) return;
     
     socket.on('game_state', (state) => {
+      setIsAudience(false);
+      setGameState(state);
+    });
+    
+    // The room was full, so we joined as an audience member
+    socket.on('audience_joined', ({ name: audienceName }: { roomCode: string; name: string }) => {
+      setName(audienceName);
+      setIsAudience(true);
+    });
+    
+    socket.on('audience_state', (state: GameState) => {
       setGameState(state);
     });
     
-    // Handle server errors (e.g., room not found when joining)
-    socket.on('error', ({ message }: { message: string }) => {
+    // The host vetoed our lie; a house lie took its place
+    socket.on('lie_struck', ({ message }: { message: string }) => {
+      playSound('error');
+      setLieRejection(message);
+    });
+    
+    // The server issues a session token on join; it is the only way to resume our seat
+    socket.on('player_session', (session: PlayerSession) => {
+      setName(session.name);
+      localStorage.setItem(STORAGE_KEY_ROOM, session.roomCode);
+      localStorage.setItem(STORAGE_KEY_NAME, session.name);
+      localStorage.setItem(STORAGE_KEY_SESSION, session.sessionToken);
+    });
+    
+    // Back to the join form, prefilled with whatever from our last attempt is still worth keeping
+    const backToJoinForm = (message: string, keep: { room?: boolean; name?: boolean }) => {
+      playSound('error');
       setJoined(false);
       setIsReconnecting(false);
       setReconnectError(message);
-      // Clear stored room data since it failed
-      localStorage.removeItem(STORAGE_KEY_ROOM);
-      localStorage.removeItem(STORAGE_KEY_NAME);
-      setStoredRoomCode(null);
-      setStoredName(null);
+      setStoredRoomCode(keep.room ? lastJoinRef.current.roomCode : null);
+      setStoredName(keep.name ? lastJoinRef.current.name : null);
+    };
+    
+    socket.on('error', ({ code, message, details }: GameError) => {
+      switch (code) {
+        // Our lie was (nearly) the truth, already taken or not clean; write another
+        case 'LIE_REJECTED':
+          playSound('error');
+          setLieRejection(message);
+          break;
+        // The room is gone or we are out of it, so our seat can't come back
+        case 'ROOM_NOT_FOUND':
+        case 'ROOM_CLOSED':
+        case 'KICKED':
+        case 'BANNED':
+          clearStoredSession();
+          backToJoinForm(message, { name: true });
+          break;
+        // Same room, different name
+        case 'NAME_TAKEN':
+        case 'NAME_REJECTED':
+          clearStoredSession();
+          backToJoinForm(message, { room: true });
+          break;
+        // Nothing wrong with what we typed; it may work later
+        case 'ROOM_FULL':
+        case 'GAME_IN_PROGRESS':
+          backToJoinForm(message, { room: true, name: true });
+          break;
+        // The server dropped one of our requests; it can be retried and any saved seat stays
+        case 'RATE_LIMITED':
+        case 'INVALID_PAYLOAD':
+        case 'SERVER_ERROR':
+          if (details.event === 'submit_lie' || details.event === 'submit_lie_suggestion') {
+            playSound('error');
+            setLieRejection(message);
+          } else if (details.event === 'join_player') {
+            backToJoinForm(message, { room: true, name: true });
+          }
+          break;
+      }
     });
     
     return () => {
       socket.off('game_state');
+      socket.off('audience_joined');
+      socket.off('audience_state');
+      socket.off('player_session');
+      socket.off('lie_struck');
       socket.off('error');
     };
   }, [socket]);
+  
+  // A reconnected socket has a new id, so re-present our token to get our seat back
+  useEffect(() => {
+    if (!socket || !joined) return;
+    
+    const handleReconnect = () => {
+      const savedToken = localStorage.getItem(STORAGE_KEY_SESSION);
+      if (savedToken) {
+        socket.emit('join_player', { roomCode, playerName: name, sessionToken: savedToken, deviceId: getDeviceId() });
+      } else if (isAudience) {
+        socket.emit('join_player', { roomCode, playerName: name, deviceId: getDeviceId() });
+      }
+    };
+    
+    socket.on('connect', handleReconnect);
+    
+    return () => {
+      socket.off('connect', handleReconnect);
+    };
+  }, [socket, joined, roomCode, name, isAudience]);
 
   const handleJoin = (playerName: string, code: string) => {
     if (!socket) return;
@@ -774,12 +1250,12 @@ export const PlayerPage = () => {
     setReconnectError(null); // Clear any previous error
     setName(playerName);
     setRoomCode(code);
+    lastJoinRef.current = { roomCode: code, name: playerName };
     
-    // Save to localStorage for reconnection
-    localStorage.setItem(STORAGE_KEY_ROOM, code);
-    localStorage.setItem(STORAGE_KEY_NAME, playerName);
-    
-    socket.emit('join_player', { roomCode: code, playerName });
+    // Present any saved token: it only ever finds our own seat, and the
+    // server refuses it if the host banned us
+    const savedToken = localStorage.getItem(STORAGE_KEY_SESSION);
+    socket.emit('join_player', { roomCode: code, playerName, sessionToken: savedToken, deviceId: getDeviceId() });
     setJoined(true);
     playSound('playerJoin');
   };
@@ -787,17 +1263,51 @@ export const PlayerPage = () => {
   const handleSubmitLie = (lie: string) => {
     if (!socket) return;
     playSound('lieSubmit');
+    setLieRejection(null);
     socket.emit('submit_lie', { roomCode, lie });
   };
   
+  const handleRequestSuggestions = () => {
+    if (!socket) return;
+    playSound('click');
+    socket.emit('request_lie_suggestions', { roomCode });
+  };
+  
+  const handlePickSuggestion = (suggestion: string) => {
+    if (!socket) return;
+    playSound('lieSubmit');
+    setLieRejection(null);
+    socket.emit('submit_lie_suggestion', { roomCode, suggestion });
+  };
+  
   const handleSubmitVote = (choiceId: string) => {
     if (!socket) return;
     playSound('voteSubmit');
     socket.emit('submit_vote', { roomCode, choiceId });
   };
+  
+  const handleSubmitFinalVote = (picks: { first: string; second: string }) => {
+    if (!socket) return;
+    playSound('voteSubmit');
+    socket.emit('submit_vote', { roomCode, picks });
+  };
+  
+  const handleAudienceVote = (choiceId: string) => {
+    if (!socket) return;
+    playSound('voteSubmit');
+    socket.emit('submit_audience_vote', { roomCode, choiceId });
+  };
+  
+  const handleToggleLike = (lieId: string) => {
+    if (!socket) return;
+    playSound('pop');
+    socket.emit('toggle_like', { roomCode, lieId });
+  };
 
   // Find self in player list
-  const myState = gameState?.players.find(p => p.id === socket?.id) || { score: 0, hasLied: false, hasVoted: false };
+  const myState = gameState?.players.find(p => p.id === gameState.me?.id) || { score: 0, hasLied: false, hasVoted: false };
+  const isQueued = !!gameState?.me?.queued;
+  const isPlayer = joined && !isAudience && !isQueued;
 
   return (
     <div className="min-h-screen relative">
@@ -817,10 +1327,18 @@ export const PlayerPage = () => {
           transition={{ delay: 0.5, type: 'spring' }}
         >
           <span className="font-fun text-[#38bdf8] text-lg">😎 {name}</span>
-          <span className="score-cartoon text-sm">⭐ {myState.score}</span>
+          {isAudience
+            ? <span className="score-cartoon text-sm">👥 Audience</span>
+            : <span className="score-cartoon text-sm">⭐ {myState.score}</span>}
         </motion.div>
       )}
 
+      <AnimatePresence>
+        {joined && gameState && !gameState.hostConnected && (
+          <HostAwayOverlay key="host-away" />
+        )}
+      </AnimatePresence>
+
       <AnimatePresence mode="wait">
         {isReconnecting && (
           <motion.div 
@@ -864,7 +1382,19 @@ export const PlayerPage = () => {
           />
         )}
 
-        {joined && (!gameState || gameState.state === 'LOBBY') && (
+        {joined && isQueued && (
+          <QueuedScreen key="queued" name={name} />
+        )}
+
+        {joined && isAudience && gameState && (
+          <AudienceScreen 
+            key="audience" 
+            gameState={gameState} 
+            onVote={handleAudienceVote} 
+          />
+        )}
+
+        {isPlayer && (!gameState || gameState.state === 'LOBBY') && (
           <LobbyWaitingScreen 
             key="lobby"
             name={name} 
@@ -872,43 +1402,68 @@ export const PlayerPage = () => {
           />
         )}
 
-        {joined && gameState?.state === 'ROUND_INTRO' && (
+        {isPlayer && gameState?.state === 'ROUND_INTRO' && (
           <RoundIntroWaitingScreen 
             key="round-intro"
             roundNumber={gameState.roundNumber}
+            multiplier={gameState.roundMultiplier}
             isFinal={gameState.isFinalFibbage}
+            truthPoints={gameState.truthPoints}
+            foolPoints={gameState.foolPoints}
           />
         )}
 
-        {joined && gameState?.state === 'LIE_INPUT' && gameState.currentQuestion && (
+        {isPlayer && gameState?.state === 'LIE_INPUT' && gameState.currentQuestion && (
           <LieInputScreen
             key="lie-input"
             question={gameState.currentQuestion.text}
             category={gameState.currentQuestion.category}
             round={gameState.round}
             hasSubmitted={myState.hasLied}
+            submittedLie={gameState.me?.lie}
+            rejection={lieRejection}
+            suggestions={gameState.me?.lieSuggestions ?? []}
             players={gameState.players}
             onSubmit={handleSubmitLie}
+            onRequestSuggestions={handleRequestSuggestions}
+            onPickSuggestion={handlePickSuggestion}
+            onClearRejection={() => setLieRejection(null)}
           />
         )}
 
-        {joined && gameState?.state === 'VOTING' && gameState.currentQuestion && (
+        {isPlayer && gameState?.state === 'VOTING' && gameState.currentQuestion && gameState.isFinalFibbage && (
+          <FinalVotingScreen
+            key="final-voting"
+            question={gameState.currentQuestion.text}
+            lies={gameState.lies}
+            hasVoted={myState.hasVoted}
+            players={gameState.players}
+            onVote={handleSubmitFinalVote}
+            onToggleLike={handleToggleLike}
+          />
+        )}
+
+        {isPlayer && gameState?.state === 'VOTING' && gameState.currentQuestion && !gameState.isFinalFibbage && (
           <VotingScreen
             key="voting"
             question={gameState.currentQuestion.text}
             lies={gameState.lies}
             hasVoted={myState.hasVoted}
             players={gameState.players}
-            mySocketId={socket?.id}
             onVote={handleSubmitVote}
+            onToggleLike={handleToggleLike}
           />
         )}
 
-        {joined && gameState?.state === 'REVEAL' && (
-          <RevealWaitingScreen key="reveal" />
+        {isPlayer && gameState?.state === 'REVEAL' && (
+          <RevealWaitingScreen 
+            key="reveal" 
+            lies={gameState.lies} 
+            onToggleLike={handleToggleLike} 
+          />
         )}
 
-        {joined && gameState?.state === 'MINI_SCOREBOARD' && (
+        {isPlayer && gameState?.state === 'MINI_SCOREBOARD' && (
           <MiniScoreboardWaitingScreen 
             key="mini-scoreboard"
             score={myState.score}
@@ -916,7 +1471,7 @@ export const PlayerPage = () => {
           />
         )}
 
-        {joined && gameState?.state === 'SCOREBOARD' && (
+        {isPlayer && gameState?.state === 'SCOREBOARD' && (
           <LobbyWaitingScreen 
             key="scoreboard"
             name={name} 
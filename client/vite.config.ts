@@ -7,5 +7,11 @@ export default defineConfig({
     react(),
     tailwindcss(),
   ],
+  server: {
+    fs: {
+      // The socket protocol lives in ../shared, next to the server
+      allow: ['..'],
+    },
+  },
 })
 
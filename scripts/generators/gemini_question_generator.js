@@ -81,6 +81,7 @@ CRITICAL REQUIREMENTS:
 5. Fake answers should be believable but definitely NOT true
 6. Questions should be fun, weird, or unusual - not boring trivia
 7. Keep answers SHORT (1-4 words ideally)
+8. List other common ways to write the real answer as "synonyms" (can be empty) - lies matching these are rejected
 
 STYLE EXAMPLES (for inspiration, but create NEW questions):
 - "The national animal of Scotland is the ________." → "Unicorn"
@@ -97,6 +98,7 @@ OUTPUT FORMAT (strict JSON, no markdown, no code blocks):
       "text": "Question text with ________ for the blank",
       "correctAnswer": "The real surprising answer (short)",
       "houseLies": ["Fake 1", "Fake 2", "Fake 3", "Fake 4"],
+      "synonyms": ["Other wording of the real answer"],
       "category": "One of: History, Science, Animals, Geography, Pop Culture, Language, Food, Sports, Art, Weird Laws, Human Body, Inventions, Nature, Entertainment, Random Facts",
       "difficulty": "easy or medium or hard"
     }
@@ -223,6 +225,7 @@ async function generateBatch(count = 10) {
                 spokenText: q.text.replace(/_{2,}|________/g, 'BLANK'),
                 correctAnswer: q.correctAnswer.toLowerCase(),
                 houseLies: q.houseLies.slice(0, 4).map(l => l.toLowerCase()),
+                synonyms: Array.isArray(q.synonyms) ? q.synonyms.map(s => String(s).toLowerCase()) : [],
                 category: q.category || 'Random Facts',
                 difficulty: q.difficulty || 'medium',
                 seed: q.seed,
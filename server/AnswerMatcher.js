@@ -0,0 +1,92 @@
+// Fuzzy answer comparison used to keep lies from duplicating the truth
+// (or each other). Two answers match when their normalized forms are within
+// a small edit distance of each other, as long as their numbers agree and
+// neither swaps one real word for another.
+
+const fs = require('fs');
+const path = require('path');
+
+const ARTICLES = new Set(['a', 'an', 'the']);
+
+// Crude singularization, good enough for trivia answers ("cats" -> "cat",
+// "boxes" -> "box", "berries" -> "berry") without a dictionary
+function singularize(word) {
+  if (word.length > 4 && word.endsWith('ies')) return word.slice(0, -3) + 'y';
+  if (word.length > 4 && /(ches|shes|sses|xes|zes)$/.test(word)) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+function normalizeAnswer(text) {
+  return String(text || '')
+    .toLowerCase()
+    .normalize('NFKD').replace(/[\u0300-\u036f]/g, '') // strip accents
+    .replace(/(\d),(?=\d{3}\b)/g, '$1') // "1,200" -> "1200"
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word && !ARTICLES.has(word))
+    .map(singularize)
+    .join(' ');
+}
+
+// Everyday words, normalized like answers. Two different real words are
+// never a typo of each other, however close they are ("horses", "houses").
+const COMMON_WORDS = new Set(
+  JSON.parse(fs.readFileSync(path.join(__dirname, 'data/common_words.json'), 'utf8')).map(normalizeAnswer)
+);
+
+function editDistance(a, b) {
+  if (a === b) return 0;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Typos allowed for an answer of this length; short answers must match exactly
+function allowedDistance(length) {
+  if (length <= 4) return 0;
+  if (length <= 8) return 1;
+  return 2;
+}
+
+// Numbers in an answer, in order; these have to match exactly ("12 feet", "13 feet")
+function numbersIn(normalized) {
+  return normalized.split(' ').filter(word => /[0-9]/.test(word)).join(' ');
+}
+
+// Whether the answers differ by swapping one real word for another
+function swapsRealWord(left, right) {
+  const leftWords = left.split(' ');
+  const rightWords = right.split(' ');
+  if (leftWords.length !== rightWords.length) return false;
+  return leftWords.some((word, i) => word !== rightWords[i] && COMMON_WORDS.has(word) && COMMON_WORDS.has(rightWords[i]));
+}
+
+function isNearMatch(a, b) {
+  const left = normalizeAnswer(a);
+  const right = normalizeAnswer(b);
+  if (!left || !right) return false;
+  if (left === right) return true;
+  if (numbersIn(left) !== numbersIn(right) || swapsRealWord(left, right)) return false;
+  // Compare without spaces too, so "ice cream" matches "icecream"
+  const distance = editDistance(left.replace(/ /g, ''), right.replace(/ /g, ''));
+  return distance <= allowedDistance(Math.min(left.length, right.length));
+}
+
+function matchesAny(text, candidates) {
+  return candidates.some(candidate => isNearMatch(text, candidate));
+}
+
+module.exports = {
+  normalizeAnswer,
+  isNearMatch,
+  matchesAny
+};
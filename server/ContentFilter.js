@@ -0,0 +1,81 @@
+// Profanity filter for player-written text (names and lies), which ends up on
+// the shared screen and in the narrator's mouth. Text is normalized first so
+// the usual tricks ("sh1t", "f u c k", "fuuuck", "f.u.c.k") don't slip past
+// the bundled word list.
+
+const fs = require('fs');
+const path = require('path');
+
+const BLOCKED_WORDS = JSON.parse(fs.readFileSync(path.join(__dirname, 'data/blocked_words.json'), 'utf8'));
+
+const LEETSPEAK = {
+  '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '8': 'b', '9': 'g',
+  '@': 'a', '$': 's', '!': 'i', '+': 't', '|': 'i'
+};
+
+// Endings a blocked word may carry and still count as that word ("shitty", "fucking")
+const SUFFIXES = ['', 's', 'es', 'ed', 'er', 'ers', 'ing', 'ty'];
+
+// Strict mode also looks for blocked words hidden inside other words, but only
+// for words this long; "ass" inside "class" is fine
+const MIN_EMBEDDED_LENGTH = 4;
+
+// Collapse repeated letters: "fuuuck" -> "fuck"
+const squeeze = text => text.replace(/(.)\1+/g, '$1');
+
+function normalizeWords(text) {
+  const words = String(text || '')
+    .toLowerCase()
+    .normalize('NFKD').replace(/[\u0300-\u036f]/g, '') // strip accents
+    .replace(/[0-9@$!+|]/g, ch => LEETSPEAK[ch] || ch)
+    .replace(/[-_]/g, ' ')
+    .replace(/[^a-z\s]/g, '')
+    .split(/\s+/)
+    .filter(Boolean);
+
+  // Runs of single letters are one spaced-out word: "f u c k" -> "fuck"
+  const merged = [];
+  let run = '';
+  for (const word of words) {
+    if (word.length === 1) {
+      run += word;
+      continue;
+    }
+    if (run) merged.push(run);
+    run = '';
+    merged.push(word);
+  }
+  if (run) merged.push(run);
+  return merged;
+}
+
+function matchesWord(word, blocked) {
+  return SUFFIXES.some(suffix => {
+    if (!word.endsWith(suffix)) return false;
+    const stem = word.slice(0, word.length - suffix.length);
+    // Stretched spellings must be longer than the word itself, so "as" never matches "ass"
+    return stem === blocked || (stem.length > blocked.length && squeeze(stem) === squeeze(blocked));
+  });
+}
+
+// The blocked word `text` contains at this filter level ('off', 'family' or
+// 'strict'), or null when the text is clean
+function findBlockedWord(text, level) {
+  if (level !== 'family' && level !== 'strict') return null;
+  const words = normalizeWords(text);
+  const squeezed = squeeze(words.join(''));
+  return BLOCKED_WORDS.find(blocked =>
+    words.some(word => matchesWord(word, blocked)) ||
+    (level === 'strict' && blocked.length >= MIN_EMBEDDED_LENGTH && squeezed.includes(squeeze(blocked)))
+  ) || null;
+}
+
+// How a blocked word is shown to the host: "f***"
+function maskWord(word) {
+  return word[0] + '*'.repeat(word.length - 1);
+}
+
+module.exports = {
+  findBlockedWord,
+  maskWord
+};
@@ -1,36 +1,109 @@
 const fs = require('fs');
 const path = require('path');
+const crypto = require('crypto');
 const GeminiService = require('./GeminiService');
+const { DEFAULT_SETTINGS, validateSettings, getTotalQuestions } = require('./GameSettings');
+const { matchesAny, isNearMatch } = require('./AnswerMatcher');
+const RoundResult = require('./RoundResult');
+const Scheduler = require('./Scheduler');
+const { findBlockedWord, maskWord } = require('./ContentFilter');
+const { recordFeedback } = require('./QuestionFeedback');
+const { TEXT_LIMITS, gameError } = require('./protocol');
 
 // Load questions
 const questionsData = JSON.parse(fs.readFileSync(path.join(__dirname, 'data/questions.json'), 'utf8'));
+const QUESTION_CATEGORIES = [...new Set(questionsData.flatMap(g => g.questions.map(q => q.category)))].sort();
+const QUESTIONS_BY_ID = new Map(questionsData.flatMap(g => g.questions).map(q => [q.id, q]));
 
-// Timer constants
-const PHASE_DURATION = 60; // 60 seconds per phase
-const TIMER_TICK_INTERVAL = 1000; // Broadcast every second
+// Bumped whenever toSnapshot() changes shape; older snapshots are not restored
+const SNAPSHOT_VERSION = 1;
+
+// Extra direction appended to narration prompts for each content rating
+const NARRATION_STYLES = {
+  family: ' (Keep it family friendly: gentle teasing only, nothing rude.)',
+  standard: '',
+  spicy: ' (This crowd wants it spicy: roast them harder, but nothing hateful.)'
+};
+
+const MAX_NAME_LENGTH = TEXT_LIMITS.nameLength; // Matches the join form
+const FILTER_LOG_SIZE = 50; // Content filter hits kept for the host
+
+// Most time the host can add to a phase in one go
+const MAX_ADDED_SECONDS = 120;
+
+// Reveal pacing: each step waits for the narrator to finish talking about it,
+// but stays up at least long enough to read and never waits on a stalled
+// narrator past the maximum. Without narration every step gets the fallback.
+const REVEAL_STEP_MIN_MS = 3000;
+const REVEAL_STEP_MAX_MS = 15000;
+const REVEAL_STEP_FALLBACK_MS = 6000;
+const REVEAL_END_DELAY_MS = 2000; // Last look at the truth before the scoreboard
+
+// How long a disconnected player keeps everyone waiting before they are
+// marked away and left out of the "everyone has submitted" checks
+const PLAYER_GRACE_PERIOD_MS = (parseInt(process.env.PLAYER_GRACE_PERIOD_SECONDS, 10) || 10) * 1000;
+
+// Beyond the player cap newcomers join the audience, up to this many
+const MAX_AUDIENCE_SIZE = 100;
+
+// "Lie For Me": house lies offered per request, and the share of the usual
+// fooling points a player earns with one
+const LIE_SUGGESTION_COUNT = 3;
+const SUGGESTED_LIE_REWARD = 0.5;
+
+// Final Fibbage: every player makes a first and a second pick; the second
+// pick scores this share of the usual points, both for the truth and as a fool
+const FINAL_SECOND_PICK_WEIGHT = 0.5;
 
 class Game {
-  constructor(io, roomCode, hostSocketId) {
+  constructor(io, roomCode, hostSocketId, settings = DEFAULT_SETTINGS) {
     this.io = io;
     this.roomCode = roomCode;
     this.hostSocketId = hostSocketId;
+    this.hostToken = crypto.randomBytes(24).toString('hex'); // Lets a refreshed host reclaim the room
+    this.hostConnected = true;
+    this.scheduler = new Scheduler(); // Every timer this game starts, see dispose()
+    this.lastActivityAt = Date.now(); // For the idle-room reaper
     
-    this.players = new Map(); 
+    this.players = new Map(); // playerId -> player (survives reconnects)
+    this.socketToPlayer = new Map(); // socketId -> playerId
+    this.queuedPlayers = new Map(); // playerId -> player joining mid-game, seated at the next question
+    this.audience = new Map(); // socketId -> { name, vote } for spectators past the player cap
+    this.bannedSessions = new Set(); // Session tokens the host banned from this room
+    this.bannedDevices = new Set(); // Their browsers' device ids, so a cleared session stays out
+    this.bannedAddresses = new Set(); // Their addresses, only when address bans are turned on
+    this.filterLog = []; // Recent content filter hits, newest last, shown to the host
     this.state = 'LOBBY'; 
     
+    // Game structure (rounds, timers, points) - validated by RoomManager
+    this.settings = settings;
+    
     // Game Content
-    this.gameData = questionsData[Math.floor(Math.random() * questionsData.length)];
+    this.questions = this.pickQuestions();
     this.currentQuestionIndex = 0;
+    this.replacedQuestionIds = new Set(); // Questions the host threw out; never offered again in this room
     
     // Round data
     this.currentLies = []; 
     this.revealOrder = []; // Separate order for reveal (truth last)
     this.revealIndex = 0; // For stepwise reveal
+    this.truthId = null; // Opaque option id of the truth for the current question
+    this.roundResult = null; // Scoring breakdown, set once the truth is revealed
+    this.history = []; // Every RoundResult of this game, in order
     
-    // Timer management
-    this.phaseStartTime = null;
-    this.timerInterval = null;
-    this.remainingTime = PHASE_DURATION;
+    // Timer management: phases run to an absolute deadline that clients
+    // count down to locally; all durations are in milliseconds
+    this.deadline = null;
+    this.timerTimeout = null;
+    this.timerPaused = false;
+    this.pausedByHost = false; // Host pauses outlast the host's own reconnects
+    this.phaseDurationMs = settings.lieInputSeconds * 1000;
+    this.remainingMs = this.phaseDurationMs;
+    this.pendingRevealStep = false; // Reveal step held back while the host is away
+    this.revealTimer = null; // Pending reveal step
+    this.revealStepStartedAt = null;
+    this.awaitingNarration = false; // The current reveal step waits for the narrator
+    this.narrationTurn = null; // The narrator's latest line; only its completion counts
     
     // Auto-progress settings
     this.autoProgress = false;
@@ -38,6 +111,8 @@ class Game {
     
     // Gemini Service
     this.gemini = null;
+
+    this.onStateChange = null; // Set by RoomManager to save the room after changes
   }
   
   initializeGemini() {
@@ -48,16 +123,7 @@ class Game {
               (audioBuffer) => {
                   this.io.to(this.hostSocketId).emit('audio_chunk', audioBuffer);
               },
-              () => {
-                  // onTurnComplete callback
-                  this.audioPlaying = false;
-                  this.io.to(this.hostSocketId).emit('audio_complete');
-                  
-                  // If auto-progress is enabled, advance after audio completes
-                  if (this.autoProgress) {
-                      this.handleAutoProgress();
-                  }
-              }
+              (turn) => this.handleNarrationComplete(turn)
           );
           this.gemini.connect();
       } else {
@@ -65,86 +131,622 @@ class Game {
       }
   }
   
+  // Tear the game down for good: cancel every timer, hang up on the narrator
+  // and empty the room's channels. Nothing fires for this game afterwards.
+  dispose() {
+      this.scheduler.dispose();
+      this.timerTimeout = null;
+      this.revealTimer = null;
+      [...this.players.values(), ...this.queuedPlayers.values()].forEach(p => { p.awayTimer = null; });
+      if (this.gemini) {
+          this.gemini.disconnect();
+          this.gemini = null;
+      }
+      this.io.in(this.roomCode).socketsLeave(this.roomCode);
+      this.io.in(this.getAudienceChannel()).socketsLeave(this.getAudienceChannel());
+  }
+  
+  // Everything needed to bring the room back after a server restart. Sockets,
+  // timers and the narrator are not saved; they are rebuilt on restore.
+  toSnapshot() {
+      const savePlayer = ([id, p]) => ({
+          id,
+          name: p.name,
+          score: p.score,
+          currentLie: p.currentLie,
+          currentVote: p.currentVote,
+          secondVote: p.secondVote,
+          lieSuggestions: p.lieSuggestions,
+          usedSuggestion: p.usedSuggestion,
+          struck: p.struck,
+          likesReceived: p.likesReceived,
+          sessionToken: p.sessionToken,
+          deviceId: p.deviceId
+      });
+      return {
+          version: SNAPSHOT_VERSION,
+          savedAt: Date.now(),
+          roomCode: this.roomCode,
+          hostToken: this.hostToken,
+          settings: this.settings,
+          state: this.state,
+          autoProgress: this.autoProgress,
+          questionIds: this.questions.map(q => q.id),
+          currentQuestionIndex: this.currentQuestionIndex,
+          replacedQuestionIds: [...this.replacedQuestionIds],
+          players: [...this.players].map(savePlayer),
+          queuedPlayers: [...this.queuedPlayers].map(savePlayer),
+          bannedSessions: [...this.bannedSessions],
+          bannedDevices: [...this.bannedDevices],
+          bannedAddresses: [...this.bannedAddresses],
+          filterLog: this.filterLog,
+          currentLies: this.currentLies,
+          truthId: this.truthId,
+          revealOrderIds: this.revealOrder.map(l => l.id),
+          history: this.history,
+          scored: !!this.roundResult, // The current question's result is the last in the history
+          timer: {
+              phaseDurationMs: this.phaseDurationMs,
+              remainingMs: this.timerTimeout ? Math.max(0, this.deadline - Date.now()) : this.remainingMs,
+              running: !!this.timerTimeout || this.timerPaused,
+              pausedByHost: this.pausedByHost
+          }
+      };
+  }
+
+  // Rebuild a saved room, or null when the snapshot can't be used (another
+  // version, or questions that are no longer in the bank). The room comes
+  // back without its host, so it stays frozen until the host reconnects;
+  // the phase timer starts again from its full length and a reveal starts over.
+  static fromSnapshot(io, snapshot) {
+      if (!snapshot || snapshot.version !== SNAPSHOT_VERSION) return null;
+      const questions = snapshot.questionIds.map(id => QUESTIONS_BY_ID.get(id));
+      if (questions.some(q => !q)) return null;
+
+      const { settings } = validateSettings(snapshot.settings, undefined, QUESTION_CATEGORIES);
+      const game = new Game(io, snapshot.roomCode, null, settings);
+      game.hostToken = snapshot.hostToken;
+      game.hostConnected = false;
+      game.state = snapshot.state;
+      game.autoProgress = snapshot.autoProgress;
+      game.questions = questions;
+      game.currentQuestionIndex = snapshot.currentQuestionIndex;
+      game.replacedQuestionIds = new Set(snapshot.replacedQuestionIds);
+      game.bannedSessions = new Set(snapshot.bannedSessions);
+      game.bannedDevices = new Set(snapshot.bannedDevices);
+      game.bannedAddresses = new Set(snapshot.bannedAddresses);
+      game.filterLog = snapshot.filterLog;
+
+      // Everyone is away until they reconnect with their session token
+      const restorePlayer = ({ id, ...saved }) => [id, { ...saved, away: true, awayTimer: null, socketId: null }];
+      game.players = new Map(snapshot.players.map(restorePlayer));
+      game.queuedPlayers = new Map(snapshot.queuedPlayers.map(restorePlayer));
+
+      game.currentLies = snapshot.currentLies;
+      game.truthId = snapshot.truthId;
+      game.revealOrder = snapshot.revealOrderIds.map(id => game.currentLies.find(l => l.id === id)).filter(Boolean);
+      game.history = snapshot.history;
+      game.roundResult = snapshot.scored ? game.history[game.history.length - 1] || null : null;
+
+      const { timer } = snapshot;
+      if (timer.running) {
+          game.phaseDurationMs = timer.phaseDurationMs;
+          game.remainingMs = timer.phaseDurationMs;
+          game.timerPaused = true; // Runs again once the host is back
+          game.pausedByHost = timer.pausedByHost;
+      }
+      if (game.state === 'REVEAL') {
+          game.revealIndex = -1;
+          game.pendingRevealStep = true; // Starts over once the host is back
+      }
+      return game;
+  }
+
+  // Host presence: while the host is gone the phase timer and reveal are frozen
+  detachHost() {
+      this.hostConnected = false;
+      this.pauseTimer();
+      console.log(`Host disconnected from room ${this.roomCode}, game paused`);
+      this.broadcastState();
+  }
+  
+  attachHost(socketId) {
+      this.hostSocketId = socketId;
+      this.hostConnected = true;
+      console.log(`Host reattached to room ${this.roomCode}`);
+      this.broadcastState();
+      if (this.pausedByHost) {
+          this.broadcastTimer(socketId);
+      } else {
+          this.resumeTimer();
+      }
+      if (this.pendingRevealStep) {
+          this.pendingRevealStep = false;
+          this.nextRevealStep();
+      }
+  }
+  
+  // Host changes settings from the lobby; they are locked once the game starts.
+  // Returns a list of validation errors (empty when everything applied).
+  updateSettings(requestedSettings) {
+      if (this.state !== 'LOBBY') {
+          return ['Settings are locked once the game has started'];
+      }
+      const { settings, errors } = validateSettings(requestedSettings, this.settings, QUESTION_CATEGORIES);
+      this.settings = settings;
+      this.questions = this.pickQuestions();
+      this.broadcastState({ narrate: false });
+      return errors;
+  }
+  
   setAutoProgress(enabled) {
       this.autoProgress = enabled;
       console.log(`Auto-progress ${enabled ? 'enabled' : 'disabled'} for room ${this.roomCode}`);
   }
   
+  // The one setting the host may change mid-game
+  setLateJoin(enabled) {
+      this.settings = { ...this.settings, allowLateJoin: !!enabled };
+      this.broadcastState({ narrate: false });
+  }
+
   handleAutoProgress() {
       // Auto-advance based on current state
       if (this.state === 'ROUND_INTRO') {
-          setTimeout(() => this.nextState(), 1000);
+          this.scheduler.setTimeout(() => this.nextState(), 1000);
       } else if (this.state === 'MINI_SCOREBOARD') {
-          setTimeout(() => this.nextState(), 2000);
+          this.scheduler.setTimeout(() => this.nextState(), 2000);
       }
   }
 
-  addPlayer(socketId, name) {
-    let existingId = null;
-    for (const [id, p] of this.players) {
-        if (p.name === name && !this.io.sockets.sockets.get(id)) {
-            existingId = id;
-            break;
-        }
-    }
+  // Join or resume a seat. A seat is only resumed when the session token
+  // issued on the original join is presented; names are never trusted.
+  addPlayer(socketId, name, sessionToken, deviceId = null) {
+    const existing = sessionToken ? this.findPlayerBySession(sessionToken) : null;
+    let playerId;
 
-    if (existingId) {
-        const p = this.players.get(existingId);
-        this.players.delete(existingId);
-        this.players.set(socketId, p);
-        console.log(`Player ${name} reconnected`);
+    if (existing) {
+        playerId = existing.id;
+        const p = existing.player;
+        if (p.socketId && p.socketId !== socketId) {
+            this.socketToPlayer.delete(p.socketId);
+        }
+        p.socketId = socketId;
+        this.scheduler.clearTimeout(p.awayTimer);
+        p.awayTimer = null;
+        p.away = false;
+        console.log(`Player ${p.name} reconnected`);
     } else {
-        this.players.set(socketId, { name, score: 0, currentLie: '', currentVote: null });
+        if (this.isNameTaken(name)) {
+            this.io.to(socketId).emit('error', gameError('NAME_TAKEN', 'That name is already taken', { name }));
+            return false;
+        }
+        const rejection = this.checkContent(name, 'name');
+        if (rejection) {
+            this.io.to(socketId).emit('error', gameError('NAME_REJECTED', rejection.message, { name, reason: rejection.reason }));
+            this.broadcastState({ narrate: false }); // Updates the host's filter log
+            return false;
+        }
+        playerId = crypto.randomUUID();
+        // Mid-game newcomers wait in a queue until the next question starts
+        const seats = this.state === 'LOBBY' ? this.players : this.queuedPlayers;
+        seats.set(playerId, {
+            name,
+            score: 0,
+            currentLie: '',
+            currentVote: null,
+            secondVote: null,
+            lieSuggestions: [],
+            usedSuggestion: false,
+            struck: false,     // The host vetoed this question's lie
+            likesReceived: 0,
+            away: false,       // Disconnected for longer than the grace period
+            awayTimer: null,
+            socketId,
+            sessionToken: crypto.randomBytes(24).toString('hex'),
+            deviceId           // The browser's own id, kept across sessions; used for bans
+        });
     }
 
+    this.socketToPlayer.set(socketId, playerId);
+    const player = this.players.get(playerId) || this.queuedPlayers.get(playerId);
+    this.io.to(socketId).emit('player_session', {
+        roomCode: this.roomCode,
+        playerId,
+        name: player.name,
+        sessionToken: player.sessionToken
+    });
+
     this.broadcastState();
+    this.broadcastTimer(socketId);
+    return true;
+  }
+
+  findPlayerBySession(sessionToken) {
+    for (const [id, player] of [...this.players, ...this.queuedPlayers]) {
+        if (player.sessionToken === sessionToken) return { id, player };
+    }
+    return null;
+  }
+
+  isNameTaken(name) {
+    const normalized = name.trim().toLowerCase();
+    return [...this.players.values(), ...this.queuedPlayers.values()]
+      .some(p => p.name.trim().toLowerCase() === normalized);
+  }
+
+  isFull() {
+    return this.players.size + this.queuedPlayers.size >= this.settings.maxPlayers;
+  }
+
+  isAudienceFull() {
+    return this.audience.size >= MAX_AUDIENCE_SIZE;
+  }
+
+  // Starting score for a late joiner, following the host's catch-up policy
+  getLateJoinScore() {
+    const scores = Array.from(this.players.values()).map(p => p.score);
+    if (scores.length === 0 || this.settings.lateJoinScore === 'zero') return 0;
+    if (this.settings.lateJoinScore === 'lowest') return Math.min(...scores);
+    return Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length);
+  }
+
+  // Seat everyone who joined during the last question
+  activateQueuedPlayers() {
+    const score = this.getLateJoinScore();
+    this.queuedPlayers.forEach((player, id) => {
+      player.score = score;
+      this.players.set(id, player);
+      console.log(`Player ${player.name} joined the game in progress with ${score} points`);
+    });
+    this.queuedPlayers.clear();
+  }
+
+  // Audience members share one socket.io room so their state goes out as a
+  // single aggregated broadcast no matter how many of them there are
+  getAudienceChannel() {
+    return `${this.roomCode}:audience`;
+  }
+
+  addAudienceMember(socketId, name) {
+    this.audience.set(socketId, { name, vote: null });
+    this.io.to(socketId).emit('audience_joined', { roomCode: this.roomCode, name });
+    // Only the newcomer needs a state now; everyone else sees the new
+    // audience count with the next regular broadcast
+    this.io.to(socketId).emit('audience_state', this.getAudienceState());
+    this.broadcastTimer(socketId);
+  }
+
+  removeAudienceMember(socketId) {
+    this.audience.delete(socketId);
+  }
+
+  receiveAudienceVote(socketId, choiceId) {
+    if (this.state !== 'VOTING' || !this.hostConnected) return;
+    const member = this.audience.get(socketId);
+    if (member && this.currentLies.some(l => l.id === choiceId)) {
+      member.vote = choiceId;
+    }
+  }
+
+  // Audience count, plus (once the reveal starts) the per-option tally and
+  // the crowd's top pick. Hidden while voting so it can't sway the players.
+  getAudienceSummary() {
+    const summary = { count: this.audience.size, tally: null, pickId: null };
+    if (this.state !== 'REVEAL') return summary;
+
+    summary.tally = this.getAudienceTally();
+    let best = 0;
+    for (const [lieId, votes] of Object.entries(summary.tally)) {
+      if (votes > best) {
+        best = votes;
+        summary.pickId = lieId;
+      }
+    }
+    return summary;
+  }
+
+  getAudienceTally() {
+    const tally = {};
+    this.audience.forEach(member => {
+      if (member.vote) tally[member.vote] = (tally[member.vote] || 0) + 1;
+    });
+    return tally;
+  }
+
+  getAudienceState() {
+    return {
+      ...this.getPublicState(),
+      lies: this.getLiesView(null, this.getRevealedIds())
+    };
+  }
+
+  getPlayerIdBySocket(socketId) {
+    return this.socketToPlayer.get(socketId) || null;
   }
 
   removePlayer(socketId) {
+    const playerId = this.getPlayerIdBySocket(socketId);
+    if (!playerId) return;
+    this.socketToPlayer.delete(socketId);
+
+    // A queued late joiner hasn't played yet, so there is no seat to keep
+    if (this.queuedPlayers.delete(playerId)) {
+        this.broadcastState({ narrate: false });
+        return;
+    }
+
     if (this.state === 'LOBBY') {
-        this.players.delete(socketId);
+        this.players.delete(playerId);
         this.broadcastState();
+    } else {
+        // Keep the seat (and score) so the player can resume with their token
+        const player = this.players.get(playerId);
+        player.socketId = null;
+        this.scheduler.clearTimeout(player.awayTimer);
+        player.awayTimer = this.scheduler.setTimeout(() => this.markAway(playerId), PLAYER_GRACE_PERIOD_MS);
+    }
+  }
+  
+  // A ban covers the player's session token and their browser's device id.
+  // The address is only passed in when address bans are turned on: a whole
+  // party usually shares one network.
+  isBanned(sessionToken, deviceId = null, address = null) {
+    return (!!sessionToken && this.bannedSessions.has(sessionToken)) ||
+      (!!deviceId && this.bannedDevices.has(deviceId)) ||
+      (!!address && this.bannedAddresses.has(address));
+  }
+
+  ban(player, address = null) {
+    this.bannedSessions.add(player.sessionToken);
+    if (player.deviceId) this.bannedDevices.add(player.deviceId);
+    if (address) this.bannedAddresses.add(address);
+  }
+
+  // Host moderation: remove a player (seated or queued) for good.
+  // Returns the removed player so the caller can disconnect and ban them.
+  kickPlayer(playerId) {
+    const player = this.players.get(playerId) || this.queuedPlayers.get(playerId);
+    if (!player) return null;
+
+    this.players.delete(playerId);
+    this.queuedPlayers.delete(playerId);
+    if (player.socketId) this.socketToPlayer.delete(player.socketId);
+    this.scheduler.clearTimeout(player.awayTimer);
+    console.log(`Player ${player.name} was kicked from room ${this.roomCode}`);
+
+    // Nobody should keep waiting on a player who is gone
+    if (this.state === 'LIE_INPUT') {
+      this.checkAllLiesSubmitted();
+    } else if (this.state === 'VOTING') {
+      this.checkAllVotes();
+    }
+    this.broadcastState({ narrate: false });
+    return player;
+  }
+
+  // Host moderation: force a new name. Returns an error message, or null.
+  renamePlayer(playerId, newName) {
+    const player = this.players.get(playerId) || this.queuedPlayers.get(playerId);
+    const name = typeof newName === 'string' ? newName.trim() : '';
+    if (!player) return 'That player is no longer in the game';
+    if (!name || name.length > MAX_NAME_LENGTH) return `Names must be 1-${MAX_NAME_LENGTH} characters`;
+    if (name.toLowerCase() !== player.name.toLowerCase() && this.isNameTaken(name)) return 'That name is already taken';
+
+    player.name = name;
+    // Options already on screen carry their authors' names
+    this.currentLies.forEach(option => {
+      if (option.authorIds.includes(playerId)) {
+        option.author = option.authorIds.map(id => this.players.get(id)?.name).filter(Boolean).join(' & ');
+      }
+    });
+    if (player.socketId) {
+      this.io.to(player.socketId).emit('player_session', {
+        roomCode: this.roomCode,
+        playerId,
+        name: player.name,
+        sessionToken: player.sessionToken
+      });
+    }
+    this.broadcastState({ narrate: false });
+    return null;
+  }
+
+  // Host moderation: veto a submitted lie before voting. A house lie takes
+  // its place on screen (earning its author nothing) and the author is told.
+  strikeLie(playerId) {
+    const player = this.players.get(playerId);
+    if (this.state !== 'LIE_INPUT' || !player || !player.currentLie || player.struck) return;
+
+    const [houseLie] = this.getUnusedHouseLies();
+    player.currentLie = houseLie || '...';
+    player.usedSuggestion = false;
+    player.struck = true;
+    if (player.socketId) {
+      this.io.to(player.socketId).emit('lie_struck', {
+        message: 'The host removed your lie. A house lie takes its place this time.'
+      });
+    }
+    this.broadcastState({ narrate: false });
+  }
+
+  // What the host's moderation drawer lists: every player and, while lies
+  // are being written, what they submitted
+  getModerationView() {
+    return [...this.players.entries(), ...this.queuedPlayers.entries()].map(([id, p]) => ({
+      id,
+      name: p.name,
+      lie: this.state === 'LIE_INPUT' && p.currentLie && !p.struck ? p.currentLie : null,
+      struck: p.struck,
+      queued: this.queuedPlayers.has(id)
+    }));
+  }
+
+  // The player is still gone after the grace period: stop waiting for them
+  markAway(playerId) {
+    const player = this.players.get(playerId);
+    if (!player || player.socketId) return;
+    player.awayTimer = null;
+    player.away = true;
+    console.log(`Player ${player.name} is away`);
+
+    if (this.state === 'LIE_INPUT') {
+      this.checkAllLiesSubmitted();
+    } else if (this.state === 'VOTING') {
+      this.checkAllVotes();
     }
+    this.broadcastState({ narrate: false });
+  }
+
+  // Players the game waits for: everyone who isn't away
+  getActivePlayers() {
+    return Array.from(this.players.values()).filter(p => !p.away);
+  }
+
+  // Build this game's question list: one generated game first, topped up from
+  // the others when the settings ask for more questions than a game holds
+  pickQuestions() {
+      const mainGame = questionsData[Math.floor(Math.random() * questionsData.length)];
+      const others = questionsData.filter(g => g !== mainGame).sort(() => Math.random() - 0.5);
+      const pool = [mainGame, ...others].flatMap(g => g.questions);
+      // Chosen categories come first; other categories only top up a short pool
+      const wanted = this.settings.categories;
+      const isWanted = q => wanted.length === 0 || wanted.includes(q.category);
+      const regulars = [
+          ...pool.filter(q => q.type !== 'final' && isWanted(q)),
+          ...pool.filter(q => q.type !== 'final' && !isWanted(q))
+      ];
+      const normalCount = this.getNormalQuestionCount();
+      
+      const questions = regulars.slice(0, normalCount);
+      if (this.settings.includeFinalFibbage) {
+          questions.push(pool.find(q => q.type === 'final' && isWanted(q)) || regulars[normalCount]);
+      }
+      return questions;
   }
   
+  // An unused question of the same category and type (final or not), or null
+  findReplacementQuestion(question) {
+      const inUse = new Set(this.questions.map(q => q.id));
+      const isFinal = question.type === 'final';
+      const candidates = questionsData
+          .flatMap(g => g.questions)
+          .filter(q => q.category === question.category && (q.type === 'final') === isFinal)
+          .filter(q => !inUse.has(q.id) && !this.replacedQuestionIds.has(q.id));
+      return candidates[Math.floor(Math.random() * candidates.length)] || null;
+  }
+
+  // Host: swap a broken question for a fresh one while lies are still being
+  // written. Returns an error message, or null.
+  replaceQuestion() {
+      if (this.state !== 'LIE_INPUT') return 'Questions can only be replaced before voting starts';
+      const current = this.questions[this.currentQuestionIndex];
+      const replacement = this.findReplacementQuestion(current);
+      if (!replacement) return `No other ${current.category} questions left`;
+
+      console.log(`Host replaced question ${current.id} with ${replacement.id} in room ${this.roomCode}`);
+      recordFeedback(current, 'replaced');
+      this.replacedQuestionIds.add(current.id);
+      this.questions[this.currentQuestionIndex] = replacement;
+      this.resetQuestionData();
+      this.startLieInput();
+      return null;
+  }
+
+  // Host: drop the current question without scoring it. Once the truth is
+  // out the points are settled, so the host voids the question instead.
+  skipQuestion() {
+      const settled = this.state === 'REVEAL' && this.roundResult;
+      if (!['LIE_INPUT', 'VOTING', 'REVEAL'].includes(this.state) || settled) {
+          return 'Only a question that has not been scored yet can be skipped';
+      }
+      const current = this.questions[this.currentQuestionIndex];
+      console.log(`Host skipped question ${current.id} in room ${this.roomCode}`);
+      recordFeedback(current, 'skipped');
+      this.stopTimer();
+      this.clearRevealTimer();
+      this.advanceQuestion();
+      return null;
+  }
+
+  // Host: take back every point the current question gave out, once the
+  // truth is out and scored. Returns an error message, or null.
+  voidQuestion() {
+      if ((this.state !== 'REVEAL' && this.state !== 'MINI_SCOREBOARD') || !this.roundResult) {
+          return 'Only a revealed question can be voided';
+      }
+      if (this.roundResult.voided) return 'This question is already void';
+
+      this.roundResult.players.forEach(entry => {
+          const player = this.players.get(entry.playerId);
+          if (!player) return;
+          player.score -= entry.totalPoints;
+          entry.bonuses
+              .filter(bonus => bonus.type === 'likes')
+              .forEach(bonus => { player.likesReceived -= bonus.count; });
+      });
+      // The breakdown stays in the history, marked so nobody counts it
+      this.roundResult.voided = true;
+
+      const current = this.questions[this.currentQuestionIndex];
+      console.log(`Host voided question ${current.id} in room ${this.roomCode}`);
+      recordFeedback(current, 'voided');
+      this.io.to(this.roomCode).emit('round_result', this.roundResult);
+      this.broadcastState({ narrate: false });
+      return null;
+  }
+
   // Round detection helpers
+  getNormalQuestionCount() {
+      return this.settings.rounds * this.settings.questionsPerRound;
+  }
+  
   getRoundNumber() {
-      if (this.currentQuestionIndex < 3) return 1;
-      if (this.currentQuestionIndex < 6) return 2;
-      if (this.currentQuestionIndex < 9) return 3;
-      return 4; // Final Fibbage
+      if (this.isFinalFibbage()) return this.settings.rounds + 1;
+      return Math.floor(this.currentQuestionIndex / this.settings.questionsPerRound) + 1;
   }
   
   getRoundMultiplier() {
-      const round = this.getRoundNumber();
-      if (round === 1) return 1;
-      if (round === 2) return 2;
-      return 3; // Round 3 and Final are triple
+      if (this.isFinalFibbage()) return this.settings.finalMultiplier;
+      const multipliers = this.settings.roundMultipliers;
+      return multipliers[Math.min(this.getRoundNumber(), multipliers.length) - 1];
   }
   
   getQuestionInRound() {
-      const idx = this.currentQuestionIndex;
-      if (idx < 3) return idx + 1;
-      if (idx < 6) return idx - 2;
-      if (idx < 9) return idx - 5;
-      return 1; // Final Fibbage is always question 1
+      if (this.isFinalFibbage()) return 1; // Final Fibbage is always question 1
+      return (this.currentQuestionIndex % this.settings.questionsPerRound) + 1;
+  }
+  
+  getQuestionsInRound() {
+      return this.isFinalFibbage() ? 1 : this.settings.questionsPerRound;
   }
   
   isFirstQuestionOfRound() {
-      return [0, 3, 6, 9].includes(this.currentQuestionIndex);
+      return this.getQuestionInRound() === 1;
   }
   
   isFinalFibbage() {
-      return this.currentQuestionIndex >= 9;
+      return this.settings.includeFinalFibbage && this.currentQuestionIndex >= this.getNormalQuestionCount();
+  }
+  
+  getTruthPoints() {
+      return this.settings.truthPoints * this.getRoundMultiplier();
+  }
+  
+  getFoolPoints() {
+      return this.settings.foolPoints * this.getRoundMultiplier();
   }
 
-  broadcastState() {
+  // State shared by every recipient; lies are projected per recipient on top
+  getPublicState() {
     const playerList = Array.from(this.players.entries()).map(([id, p]) => ({
       id,
       name: p.name,
       score: p.score,
       hasLied: !!p.currentLie,
-      hasVoted: !!p.currentVote
+      hasVoted: !!p.currentVote,
+      likesReceived: p.likesReceived,
+      away: p.away
     }));
     
     const question = this.getCurrentQuestionPublic();
@@ -156,29 +758,134 @@ class Game {
     const currentRevealId = (this.state === 'REVEAL' && this.revealIndex >= 0 && this.revealIndex < this.revealOrder.length)
       ? this.revealOrder[this.revealIndex].id
       : null;
+    const revealedIds = this.getRevealedIds();
 
-    this.io.to(this.roomCode).emit('game_state', {
+    return {
       state: this.state,
       players: playerList,
       currentQuestion: question,
-      lies: this.state === 'VOTING' || this.state === 'REVEAL' ? this.currentLies : [],
       round: round,
       roundNumber: this.getRoundNumber(),
       roundMultiplier: this.getRoundMultiplier(),
       questionInRound: this.getQuestionInRound(),
+      questionsInRound: this.getQuestionsInRound(),
+      totalRounds: this.settings.rounds,
       isFinalFibbage: this.isFinalFibbage(),
+      truthPoints: this.getTruthPoints(),
+      foolPoints: this.getFoolPoints(),
+      settings: this.settings,
+      totalQuestions: getTotalQuestions(this.settings),
       currentRevealId: currentRevealId,
-      revealedIds: this.state === 'REVEAL' ? this.revealOrder.slice(0, this.revealIndex + 1).map(l => l.id) : [],
-      autoProgress: this.autoProgress
+      revealedIds: revealedIds,
+      autoProgress: this.autoProgress,
+      hostConnected: this.hostConnected,
+      audience: this.getAudienceSummary(),
+      queuedPlayers: Array.from(this.queuedPlayers.values()).map(p => p.name)
+    };
+  }
+
+  broadcastState({ narrate = true } = {}) {
+    this.lastActivityAt = Date.now(); // Anything worth showing counts as activity
+    if (this.onStateChange) this.onStateChange();
+    const question = this.getCurrentQuestionPublic();
+    const revealedIds = this.getRevealedIds();
+    const baseState = this.getPublicState();
+
+    // Each recipient gets its own projection of the lies so that truth and
+    // authorship never reach a client before the reveal gets to them
+    this.io.to(this.hostSocketId).emit('game_state', {
+      ...baseState,
+      availableCategories: QUESTION_CATEGORIES,
+      moderation: this.getModerationView(),
+      filterLog: this.filterLog,
+      roundResult: this.getShownRoundResult(),
+      lies: this.getLiesView(null, revealedIds)
+    });
+    this.players.forEach((p, id) => {
+      if (!p.socketId) return;
+      this.io.to(p.socketId).emit('game_state', {
+        ...baseState,
+        me: { id, lie: p.currentLie, voteId: p.currentVote, secondVoteId: p.secondVote, lieSuggestions: p.lieSuggestions },
+        lies: this.getLiesView(id, revealedIds)
+      });
     });
+    this.queuedPlayers.forEach((p, id) => {
+      if (!p.socketId) return;
+      this.io.to(p.socketId).emit('game_state', {
+        ...baseState,
+        me: { id, queued: true, lie: '', voteId: null, secondVoteId: null, lieSuggestions: [] },
+        lies: []
+      });
+    });
+    if (this.audience.size > 0) {
+      this.io.to(this.getAudienceChannel()).emit('audience_state', this.getAudienceState());
+    }
     
     // Send Context to Gemini Server-Side
-    if (this.gemini && this.gemini.isConnected) {
+    if (narrate && this.isNarrating()) {
         this.audioPlaying = true;
         this.sendGeminiUpdate(question);
     }
   }
 
+  // The current question's breakdown while it is on screen, so a host that
+  // refreshes or comes back still has it (and the void control that needs it)
+  getShownRoundResult() {
+    if (this.state !== 'REVEAL' && this.state !== 'MINI_SCOREBOARD') return null;
+    return this.roundResult;
+  }
+
+  // Whether the narrator is live (nobody would hear it without a host)
+  isNarrating() {
+    return !!(this.settings.narration && this.gemini && this.gemini.isConnected && this.hostConnected);
+  }
+
+  getRevealedIds() {
+    if (this.state !== 'REVEAL') return [];
+    return this.revealOrder.slice(0, this.revealIndex + 1).map(l => l.id);
+  }
+
+  // Project currentLies for one recipient. viewerId is the player's id,
+  // or null for the host presentation view.
+  getLiesView(viewerId, revealedIds) {
+    if (this.state !== 'VOTING' && this.state !== 'REVEAL') return [];
+    return this.currentLies.map(lie => {
+      const view = { id: lie.id, text: lie.text };
+      if (viewerId && lie.authorIds.includes(viewerId)) {
+        view.isMine = true;
+      }
+      if (viewerId && lie.likedBy.includes(viewerId)) {
+        view.likedByMe = true;
+      }
+      // Like counts would point out the player lies, so they wait for the reveal too
+      if (revealedIds.includes(lie.id)) {
+        view.isTruth = lie.isTruth;
+        view.author = lie.author;
+        view.likes = lie.likedBy.length;
+        view.voters = this.getVoters(lie.id);
+        if (lie.suggested) view.suggested = true;
+      }
+      return view;
+    });
+  }
+
+  // Who picked an option, and with which pick (only the Final Fibbage has second picks)
+  getVoters(lieId) {
+    const voters = [];
+    this.players.forEach(p => {
+      if (p.currentVote === lieId) voters.push({ name: p.name, pick: 'first' });
+      if (p.secondVote === lieId) voters.push({ name: p.name, pick: 'second' });
+    });
+    return voters;
+  }
+
+  // A player's picks with the share of the points each one is worth
+  getPicks(player) {
+    const picks = [{ id: player.currentVote, weight: 1 }];
+    if (player.secondVote) picks.push({ id: player.secondVote, weight: FINAL_SECOND_PICK_WEIGHT });
+    return picks;
+  }
+
   sendGeminiUpdate(question) {
         const context = {
             state: this.state,
@@ -187,7 +894,9 @@ class Game {
             leader: this.getLeader(),
             currentReveal: this.state === 'REVEAL' ? this.revealOrder[this.revealIndex] : null,
             roundNumber: this.getRoundNumber(),
-            roundMultiplier: this.getRoundMultiplier()
+            roundMultiplier: this.getRoundMultiplier(),
+            truthPoints: this.getTruthPoints(),
+            foolPoints: this.getFoolPoints()
         };
         
         let prompt = "";
@@ -195,37 +904,46 @@ class Game {
             prompt = `A new player joined! We have ${context.playerCount} players. The leader is ${context.leader || "nobody yet"}. Encourage them to start.`;
         } else if (context.state === 'ROUND_INTRO') {
             // Round introduction prompts
-            if (context.roundNumber === 1) {
-                prompt = `Welcome to Fibbage! This is Round 1. Here's how it works: I'll ask a question, you write a convincing lie, then everyone tries to find the real answer among the lies. You get 1000 points for finding the truth, and 500 points for every player you fool with your lie. Let's do this!`;
-            } else if (context.roundNumber === 2) {
-                prompt = `Round 2 - Double Trouble! Things are heating up. All points are now DOUBLED! That's 2000 for finding the truth and 1000 for each fool. The pressure is on!`;
-            } else if (context.roundNumber === 3) {
-                prompt = `Round 3 - Triple Threat! This is where legends are made. All points are TRIPLED! 3000 for truth, 1500 per fool. Make every answer count!`;
+            const { truthPoints, foolPoints, roundMultiplier } = context;
+            const multiplierName = { 2: 'DOUBLED', 3: 'TRIPLED' }[roundMultiplier] || `multiplied by ${roundMultiplier}`;
+            if (this.isFinalFibbage()) {
+                prompt = `THE FINAL FIBBAGE! One question. One chance. ${truthPoints} points for the truth and ${foolPoints} for every fool. Everything you've done leads to this moment. Winner takes all the glory. Losers get roasted. Let's go!`;
+            } else if (context.roundNumber === 1) {
+                prompt = `Welcome to Fibbage! This is Round 1 of ${this.settings.rounds}, with ${this.settings.questionsPerRound} questions per round. Here's how it works: I'll ask a question, you write a convincing lie, then everyone tries to find the real answer among the lies. You get ${truthPoints} points for finding the truth, and ${foolPoints} points for every player you fool with your lie. Let's do this!`;
+            } else if (roundMultiplier > 1) {
+                prompt = `Round ${context.roundNumber}! Things are heating up. All points are now ${multiplierName}! That's ${truthPoints} for finding the truth and ${foolPoints} for each fool. The pressure is on!`;
             } else {
-                prompt = `THE FINAL FIBBAGE! One question. One chance. Triple points. Everything you've done leads to this moment. Winner takes all the glory. Losers get roasted. Let's go!`;
+                prompt = `Round ${context.roundNumber}! Same stakes as before: ${truthPoints} for finding the truth and ${foolPoints} for each fool. Keep those lies coming!`;
             }
         } else if (context.state === 'LIE_INPUT') {
             // Use spokenText for clearer narration
             prompt = `Read this question for the players: "${question.spokenText}". Tell them to write a convincing lie.`;
         } else if (context.state === 'VOTING') {
-            prompt = "Time to vote! Pick the truth if you can find it.";
+            prompt = this.isFinalFibbage()
+                ? "Time to vote! In the Final Fibbage you get two picks: your first choice scores full points, your second choice scores half."
+                : "Time to vote! Pick the truth if you can find it.";
         } else if (context.state === 'REVEAL') {
              if (context.currentReveal) {
                  const lie = context.currentReveal;
                  if (lie.isTruth) {
                      prompt = `And the truth is... "${lie.text}"! `;
                      // Find winners
-                     const winners = Array.from(this.players.values()).filter(p => p.currentVote === 'truth');
-                     if (winners.length > 0) prompt += `Nice job ${winners.map(p=>p.name).join(', ')}.`;
-                     else prompt += "Nobody got it right! Wow.";
+                     const winners = Array.from(this.players.values()).filter(p => p.currentVote === lie.id);
+                     const runnersUp = Array.from(this.players.values()).filter(p => p.secondVote === lie.id);
+                     if (winners.length > 0) prompt += `Nice job ${winners.map(p=>p.name).join(', ')}. `;
+                     if (runnersUp.length > 0) prompt += `${runnersUp.map(p=>p.name).join(', ')} only found it with their second pick, so half points. `;
+                     if (winners.length === 0 && runnersUp.length === 0) prompt += "Nobody got it right! Wow.";
                  } else {
                      prompt = `Let's see... "${lie.text}". `;
                      if (lie.author === 'House AI') {
                          prompt += "That was one of mine. Did I trick anyone?";
                      } else {
-                         prompt += `That was written by ${lie.author}. `;
+                         prompt += lie.suggested
+                             ? `${lie.author} got a little help from me with that one. `
+                             : `That was written by ${lie.author}. `;
+                         if (lie.authorIds.length > 1) prompt += "Great minds lie alike, so they split the points. ";
                          // Find suckers
-                         const suckers = Array.from(this.players.values()).filter(p => p.currentVote === lie.id);
+                         const suckers = Array.from(this.players.values()).filter(p => p.currentVote === lie.id || p.secondVote === lie.id);
                          if (suckers.length > 0) prompt += `${suckers.map(p=>p.name).join(', ')} fell for it!`;
                          else prompt += "Nobody voted for that garbage.";
                      }
@@ -245,7 +963,7 @@ class Game {
             prompt = `Final scores! The winner is ${context.leader}! What a game!`;
         }
         
-        if (prompt) this.gemini.sendContext(prompt);
+        if (prompt) this.narrationTurn = this.gemini.sendContext(prompt + NARRATION_STYLES[this.settings.contentRating]);
   }
   
   getLeader() {
@@ -254,40 +972,89 @@ class Game {
   }
 
   // Timer Management
+  getPhaseDuration() {
+    return this.state === 'VOTING' ? this.settings.votingSeconds : this.settings.lieInputSeconds;
+  }
+
   startTimer() {
     this.stopTimer(); // Clear any existing timer
-    this.phaseStartTime = Date.now();
-    this.remainingTime = PHASE_DURATION;
-    
-    // Broadcast initial time
+    this.phaseDurationMs = this.getPhaseDuration() * 1000;
+    this.remainingMs = this.phaseDurationMs;
+    this.runTimer();
+  }
+  
+  // Count down to an absolute deadline. Clients animate towards it
+  // themselves, so they only hear from us when the deadline changes.
+  runTimer() {
+    this.deadline = Date.now() + this.remainingMs;
+    this.timerTimeout = this.scheduler.setTimeout(() => this.handleTimerExpired(), this.remainingMs);
     this.broadcastTimer();
-    
-    // Set up interval to broadcast timer updates
-    this.timerInterval = setInterval(() => {
-      const elapsed = Math.floor((Date.now() - this.phaseStartTime) / 1000);
-      this.remainingTime = Math.max(0, PHASE_DURATION - elapsed);
-      
-      this.broadcastTimer();
-      
-      // Auto-advance when timer expires
-      if (this.remainingTime <= 0) {
-        this.handleTimerExpired();
-      }
-    }, TIMER_TICK_INTERVAL);
   }
   
   stopTimer() {
-    if (this.timerInterval) {
-      clearInterval(this.timerInterval);
-      this.timerInterval = null;
+    this.scheduler.clearTimeout(this.timerTimeout);
+    this.timerTimeout = null;
+    this.deadline = null;
+    this.timerPaused = false;
+    this.pausedByHost = false;
+    this.remainingMs = this.phaseDurationMs;
+  }
+  
+  // Freeze the running phase timer, keeping the remaining time
+  pauseTimer() {
+    if (!this.timerTimeout) return;
+    this.scheduler.clearTimeout(this.timerTimeout);
+    this.timerTimeout = null;
+    this.remainingMs = Math.max(0, this.deadline - Date.now());
+    this.deadline = null;
+    this.timerPaused = true;
+    this.broadcastTimer();
+  }
+  
+  resumeTimer() {
+    if (!this.timerPaused) return;
+    this.timerPaused = false;
+    this.runTimer();
+  }
+  
+  // Host timer controls. A host pause is only lifted by the host, while the
+  // pause for a disconnected host lifts itself when they come back.
+  hostPauseTimer() {
+    if (!this.timerTimeout) return;
+    this.pausedByHost = true;
+    this.pauseTimer();
+  }
+  
+  hostResumeTimer() {
+    if (!this.pausedByHost) return;
+    this.pausedByHost = false;
+    if (this.hostConnected) this.resumeTimer();
+  }
+  
+  addTime(seconds) {
+    if (!Number.isInteger(seconds) || seconds < 1 || seconds > MAX_ADDED_SECONDS) return;
+    if (!this.timerTimeout && !this.timerPaused) return;
+    const addedMs = seconds * 1000;
+    this.phaseDurationMs += addedMs;
+    if (this.timerPaused) {
+      this.remainingMs += addedMs;
+      this.broadcastTimer();
+      return;
     }
-    this.remainingTime = PHASE_DURATION;
+    this.scheduler.clearTimeout(this.timerTimeout);
+    this.remainingMs = Math.max(0, this.deadline - Date.now()) + addedMs;
+    this.runTimer();
   }
   
-  broadcastTimer() {
-    this.io.to(this.roomCode).emit('timer_sync', {
-      remaining: this.remainingTime,
-      total: PHASE_DURATION
+  // Send the running (or paused) timer to the room, or to one (re)joining socket
+  broadcastTimer(target = this.roomCode) {
+    if (!this.timerTimeout && !this.timerPaused) return;
+    if (this.onStateChange) this.onStateChange();
+    this.io.to(target).emit('timer_sync', {
+      deadline: this.deadline,
+      remainingMs: this.timerPaused ? this.remainingMs : Math.max(0, this.deadline - Date.now()),
+      totalMs: this.phaseDurationMs,
+      paused: this.timerPaused
     });
   }
   
@@ -295,64 +1062,156 @@ class Game {
     this.stopTimer();
     
     if (this.state === 'LIE_INPUT') {
-      // Auto-submit empty lies for players who haven't submitted
+      // Lie for players who haven't submitted, with a house lie while any are
+      // left. Away players sit the question out.
       this.players.forEach((player, id) => {
-        if (!player.currentLie) {
-          player.currentLie = '...'; // Default placeholder
+        if (!player.currentLie && !player.away) {
+          const [houseLie] = this.getUnusedHouseLies();
+          player.currentLie = houseLie || '...';
+          player.usedSuggestion = !!houseLie;
         }
       });
       this.startVoting();
     } else if (this.state === 'VOTING') {
-      // Auto-vote randomly for players who haven't voted
-      const lieOptions = this.currentLies.filter(l => l.id !== 'truth');
-      this.players.forEach((player, id) => {
-        if (!player.currentVote) {
+      // Idle players either abstain or get a random vote, as the host chose.
+      // Away players never vote, so they can't hand anyone fooling points.
+      if (this.settings.idleVote === 'abstain') {
+        this.startReveal();
+        return;
+      }
+      const lieOptions = this.currentLies.filter(l => !l.isTruth);
+      const pickRandomLie = (id, exceptId) => {
           // Pick a random lie (not their own)
-          const validOptions = lieOptions.filter(l => l.id !== id);
+          const validOptions = lieOptions.filter(l => !l.authorIds.includes(id) && l.id !== exceptId);
           if (validOptions.length > 0) {
-            player.currentVote = validOptions[Math.floor(Math.random() * validOptions.length)].id;
-          } else {
-            player.currentVote = 'truth';
+            return validOptions[Math.floor(Math.random() * validOptions.length)].id;
+          }
+          return this.truthId;
+      };
+      this.players.forEach((player, id) => {
+        if (!player.currentVote && !player.away) {
+          player.currentVote = pickRandomLie(id);
+          if (this.isFinalFibbage()) {
+            player.secondVote = pickRandomLie(id, player.currentVote);
           }
         }
       });
-      this.calculateScores();
       this.startReveal();
     }
   }
 
   getCurrentQuestionPublic() {
     if (this.state === 'LOBBY' || this.state === 'ROUND_INTRO') return null;
-    if (this.currentQuestionIndex >= this.gameData.questions.length) return null;
-    const q = this.gameData.questions[this.currentQuestionIndex];
+    if (this.currentQuestionIndex >= this.questions.length) return null;
+    const q = this.questions[this.currentQuestionIndex];
     return {
       text: q.text,
       spokenText: q.spokenText, // Send spoken text for frontend/AI if needed
       category: q.category,
-      answer: this.state === 'REVEAL' ? q.correctAnswer : null
+      answer: this.isTruthRevealed() ? q.correctAnswer : null
     };
   }
   
+  isTruthRevealed() {
+    if (this.state !== 'REVEAL') return false;
+    return this.getRevealedIds().includes(this.truthId);
+  }
+  
   getRoundName() {
-      if (this.currentQuestionIndex < 3) return "Round 1";
-      if (this.currentQuestionIndex < 6) return "Round 2";
-      if (this.currentQuestionIndex < 9) return "Round 3";
-      return "Final Fibbage";
+      if (this.isFinalFibbage()) return "Final Fibbage";
+      return `Round ${this.getRoundNumber()}`;
   }
 
   receiveLie(socketId, lieText) {
-    if (this.state !== 'LIE_INPUT') return;
-    const player = this.players.get(socketId);
-    if (player) {
-      player.currentLie = lieText.toLowerCase().trim();
+    if (this.state !== 'LIE_INPUT' || !this.hostConnected) return;
+    const player = this.players.get(this.getPlayerIdBySocket(socketId));
+    if (player && !player.struck) {
+      const lie = lieText.toLowerCase().trim();
+      if (!lie) return;
+      const blocked = this.checkContent(lie, 'lie', player.name);
+      const rejection = blocked || this.checkLie(lie);
+      if (rejection) {
+        // Let the player retry; nothing changes for anyone else
+        this.io.to(socketId).emit('error', gameError('LIE_REJECTED', rejection.message, { reason: rejection.reason }));
+        if (blocked) this.broadcastState({ narrate: false }); // Updates the host's filter log
+        return;
+      }
+      player.currentLie = lie;
+      player.usedSuggestion = false;
       this.checkAllLiesSubmitted();
       this.broadcastState();
     }
   }
 
+  // House lies for the current question that no player has claimed yet
+  getUnusedHouseLies() {
+    const q = this.questions[this.currentQuestionIndex];
+    const claimed = Array.from(this.players.values())
+      .filter(p => p.usedSuggestion || p.struck)
+      .map(p => p.currentLie);
+    return (q.houseLies || [])
+      .map(text => text.toLowerCase())
+      .filter(text => !claimed.includes(text));
+  }
+
+  // "Lie For Me": offer the player a few unclaimed house lies to pick from
+  offerLieSuggestions(socketId) {
+    if (this.state !== 'LIE_INPUT' || !this.hostConnected) return;
+    const player = this.players.get(this.getPlayerIdBySocket(socketId));
+    if (!player || player.currentLie) return;
+    player.lieSuggestions = this.getUnusedHouseLies()
+      .sort(() => Math.random() - 0.5)
+      .slice(0, LIE_SUGGESTION_COUNT);
+    this.broadcastState({ narrate: false });
+  }
+
+  receiveSuggestedLie(socketId, suggestion) {
+    if (this.state !== 'LIE_INPUT' || !this.hostConnected) return;
+    const player = this.players.get(this.getPlayerIdBySocket(socketId));
+    if (!player || player.struck || !player.lieSuggestions.includes(suggestion)) return;
+    if (!this.getUnusedHouseLies().includes(suggestion)) {
+      // Another player picked the same suggestion first
+      player.lieSuggestions = player.lieSuggestions.filter(text => text !== suggestion);
+      this.io.to(socketId).emit('error', gameError('LIE_REJECTED', 'Someone beat you to that one! Pick another.', { reason: 'TAKEN' }));
+      this.broadcastState({ narrate: false });
+      return;
+    }
+    player.currentLie = suggestion;
+    player.usedSuggestion = true;
+    this.checkAllLiesSubmitted();
+    this.broadcastState();
+  }
+
+  // Returns a rejection ({ reason, message }) when a name or lie trips the
+  // room's content filter, and logs the hit for the host
+  checkContent(text, field, playerName = null) {
+    const word = findBlockedWord(text, this.settings.contentFilter);
+    if (!word) return null;
+    console.log(`Content filter blocked a ${field} in room ${this.roomCode}${playerName ? ` from ${playerName}` : ''}`);
+    this.filterLog.push({ field, playerName, word: maskWord(word), time: Date.now() });
+    if (this.filterLog.length > FILTER_LOG_SIZE) this.filterLog.shift();
+    return field === 'name'
+      ? { reason: 'CONTENT', message: "That name isn't allowed here. Try another!" }
+      : { reason: 'CONTENT', message: 'Keep it clean! Try another lie.' };
+  }
+
+  // Returns a rejection ({ reason, message }) when a lie is too close to the
+  // truth (or one of the question's accepted synonyms) or to a house lie
+  checkLie(lie) {
+    const q = this.questions[this.currentQuestionIndex];
+    if (matchesAny(lie, [q.correctAnswer, ...(q.synonyms || [])])) {
+      return { reason: 'TRUTH', message: "That's the truth! Write a lie." };
+    }
+    if (matchesAny(lie, q.houseLies || [])) {
+      return { reason: 'TAKEN', message: 'Great minds think alike... that answer is taken! Try another.' };
+    }
+    return null;
+  }
+
   checkAllLiesSubmitted() {
-    const allSubmitted = Array.from(this.players.values()).every(p => p.currentLie);
-    if (allSubmitted && this.players.size > 0) {
+    const activePlayers = this.getActivePlayers();
+    const allSubmitted = activePlayers.every(p => p.currentLie);
+    if (allSubmitted && activePlayers.length > 0) {
       this.stopTimer(); // Stop lie input timer
       this.startVoting();
     }
@@ -360,73 +1219,171 @@ class Game {
 
   startVoting() {
     this.state = 'VOTING';
-    const q = this.gameData.questions[this.currentQuestionIndex];
-    this.currentLies = [];
+    this.roundResult = null;
+    this.audience.forEach(member => { member.vote = null; });
+    const q = this.questions[this.currentQuestionIndex];
+    const options = [];
     
     // Add Truth
-    this.currentLies.push({ id: 'truth', text: q.correctAnswer.toLowerCase(), isTruth: true, author: 'House' });
+    options.push({ text: q.correctAnswer.toLowerCase(), isTruth: true, author: 'House', authorIds: [] });
     
-    // Add Player Lies
+    // Add Player Lies, merging (near-)identical ones into a single option
+    // with several authors so a duplicate doesn't give the game away
     this.players.forEach((p, id) => {
-        this.currentLies.push({ id: id, text: p.currentLie, isTruth: false, author: p.name });
+        if (!p.currentLie) return; // Away the whole time
+        if (p.struck) {
+            options.push({ text: p.currentLie, isTruth: false, author: 'House AI', authorIds: [] });
+            return;
+        }
+        const duplicate = options.find(o => !o.isTruth && isNearMatch(o.text, p.currentLie));
+        if (duplicate) {
+            duplicate.authorIds.push(id);
+            duplicate.author += ` & ${p.name}`;
+        } else {
+            options.push({ text: p.currentLie, isTruth: false, author: p.name, authorIds: [id], suggested: p.usedSuggestion });
+        }
     });
     
-    // Fill with House Lies (Specific to Question now)
-    const availableLies = q.houseLies || [];
+    // Fill with House Lies (Specific to Question now), skipping any a player picked
+    const availableLies = this.getUnusedHouseLies();
     let lieIndex = 0;
-    while (this.currentLies.length < 5) {
+    while (options.length < 5) {
         // Use specific house lies first, then fall back to generics if needed (though generator ensures enough)
         const text = availableLies[lieIndex] || `Random Lie ${lieIndex}`;
-        this.currentLies.push({ 
-            id: `house_lie_${lieIndex}`, 
+        options.push({ 
             text: text.toLowerCase(), 
             isTruth: false, 
-            author: 'House AI' 
+            author: 'House AI',
+            authorIds: []
         });
         lieIndex++;
     }
     
-    // Shuffle fully for voting display (so truth isn't always in same spot)
-    this.currentLies = this.currentLies.sort(() => Math.random() - 0.5);
+    // Shuffle fully for voting display (so truth isn't always in same spot),
+    // then hand out ids by position so an id says nothing about its option
+    this.currentLies = options
+      .sort(() => Math.random() - 0.5)
+      .map((option, index) => ({ id: `option_${index}`, ...option, likedBy: [] }));
+    this.truthId = this.currentLies.find(l => l.isTruth).id;
     
     this.broadcastState();
     this.startTimer(); // Start voting timer
   }
 
-  receiveVote(socketId, choiceId) {
-    if (this.state !== 'VOTING') return;
-    const player = this.players.get(socketId);
-    if (choiceId === socketId) return; 
+  // A vote is an option id, or { first, second } option ids in the Final Fibbage
+  receiveVote(socketId, vote) {
+    if (this.state !== 'VOTING' || !this.hostConnected) return;
+    const playerId = this.getPlayerIdBySocket(socketId);
+    const player = this.players.get(playerId);
+    const choiceIds = this.isFinalFibbage()
+      ? [vote && vote.first, vote && vote.second]
+      : [vote];
+    if (choiceIds[0] === choiceIds[1]) return;
+    const votable = choiceIds.every(choiceId => {
+      const option = this.currentLies.find(l => l.id === choiceId);
+      return option && !option.authorIds.includes(playerId);
+    });
+    if (!votable) return; 
     
     if (player) {
-      player.currentVote = choiceId;
+      player.currentVote = choiceIds[0];
+      player.secondVote = choiceIds[1] || null;
       this.checkAllVotes();
       this.broadcastState();
     }
   }
 
+  // Likes are open through voting and the reveal, until the truth comes out. Any option but your own can
+  // be liked so the button gives nothing away; only player lies earn the bonus.
+  toggleLike(socketId, lieId) {
+    if ((this.state !== 'VOTING' && this.state !== 'REVEAL') || !this.hostConnected) return;
+    if (this.roundResult) return; // Scores are already settled
+    const playerId = this.getPlayerIdBySocket(socketId);
+    const option = this.currentLies.find(l => l.id === lieId);
+    if (!playerId || !option || option.authorIds.includes(playerId)) return;
+
+    if (option.likedBy.includes(playerId)) {
+      option.likedBy = option.likedBy.filter(id => id !== playerId);
+    } else {
+      option.likedBy.push(playerId);
+    }
+    this.broadcastState({ narrate: false });
+  }
+
   checkAllVotes() {
-     const allVoted = Array.from(this.players.values()).every(p => p.currentVote);
-     if (allVoted && this.players.size > 0) {
-         this.calculateScores();
+     const activePlayers = this.getActivePlayers();
+     const allVoted = activePlayers.every(p => p.currentVote);
+     if (allVoted && activePlayers.length > 0) {
          this.startReveal();
      }
   }
 
+  // Work out every player's points for the question, apply them and return
+  // the breakdown as a RoundResult
   calculateScores() {
-      const multiplier = this.getRoundMultiplier();
+      const truthPoints = this.getTruthPoints();
+      const foolPoints = this.getFoolPoints();
+      const q = this.questions[this.currentQuestionIndex];
+      const result = new RoundResult({
+          questionNumber: this.currentQuestionIndex + 1,
+          roundNumber: this.getRoundNumber(),
+          isFinalFibbage: this.isFinalFibbage(),
+          question: q.text,
+          truth: q.correctAnswer
+      }, this.players);
 
-      this.players.forEach(p => {
-          if (p.currentVote === 'truth') {
-              p.score += (1000 * multiplier);
-          } else {
-              const liarId = p.currentVote;
-              const liar = this.players.get(liarId);
-              if (liar) {
-                  liar.score += (500 * multiplier);
+      this.players.forEach((p, id) => {
+          this.getPicks(p).forEach(({ id: choiceId, weight }) => {
+              const option = this.currentLies.find(l => l.id === choiceId);
+              if (!option) return;
+              if (option.isTruth) {
+                  result.addTruth(id, Math.round(truthPoints * weight));
+              } else if (option.authorIds.length > 0) {
+                  // Co-authors of a merged lie share the points for each fool
+                  // and a house suggestion only earns part of the usual reward
+                  const reward = (option.suggested ? foolPoints * SUGGESTED_LIE_REWARD : foolPoints) * weight;
+                  const share = Math.round(reward / option.authorIds.length);
+                  option.authorIds.forEach(authorId => result.addFool(authorId, p.name, share));
               }
-          }
+          });
+      });
+
+      // Audience favourite: the player lie the audience picked most (ties all score)
+      const audiencePoints = this.settings.audiencePoints;
+      const tally = this.getAudienceTally();
+      const playerLies = this.currentLies.filter(l => l.authorIds.length > 0 && tally[l.id]);
+      const mostVotes = Math.max(0, ...playerLies.map(l => tally[l.id]));
+      if (audiencePoints > 0) {
+          playerLies.filter(l => tally[l.id] === mostVotes).forEach(option => {
+              const share = Math.round(audiencePoints / option.authorIds.length);
+              option.authorIds.forEach(authorId => {
+                  result.addBonus(authorId, { type: 'audience', points: share, count: mostVotes });
+              });
+          });
+      }
+
+      const likePoints = this.settings.likePoints;
+      this.currentLies.forEach(option => {
+          if (option.authorIds.length === 0 || option.likedBy.length === 0) return;
+          const share = Math.round(likePoints * option.likedBy.length / option.authorIds.length);
+          option.authorIds.forEach(authorId => {
+              const author = this.players.get(authorId);
+              if (author) author.likesReceived += option.likedBy.length;
+              result.addBonus(authorId, { type: 'likes', points: share, count: option.likedBy.length });
+          });
       });
+
+      result.applyTo(this.players);
+      return result.toJSON();
+  }
+
+  // Score the question once, when the truth comes out (or the host skips
+  // ahead), then share the breakdown and keep it in the game history
+  settleScores() {
+      if (this.roundResult) return;
+      this.roundResult = this.calculateScores();
+      this.history.push(this.roundResult);
+      this.io.to(this.roomCode).emit('round_result', this.roundResult);
   }
   
   startReveal() {
@@ -448,82 +1405,151 @@ class Game {
   
   nextRevealStep() {
       if (this.state !== 'REVEAL') return;
+      if (!this.hostConnected) {
+          this.pendingRevealStep = true;
+          return;
+      }
       
       this.revealIndex++;
+      if (this.revealIndex === this.revealOrder.length - 1) {
+          this.settleScores(); // The truth is always revealed last
+      }
       if (this.revealIndex >= this.revealOrder.length) {
           // Done revealing - go to mini scoreboard
           this.broadcastState(); 
           
           // Auto-advance to mini scoreboard after a delay
-          setTimeout(() => {
-              this.state = 'MINI_SCOREBOARD';
-              this.broadcastState();
-          }, 2000);
+          this.revealTimer = this.scheduler.setTimeout(() => this.endReveal(), REVEAL_END_DELAY_MS);
           return;
       }
       
       this.broadcastState();
+      this.scheduleRevealStep();
+  }
+
+  // Hold the next reveal step until the narrator has finished this one
+  // (within the min/max bounds), or for the fallback time without narration
+  scheduleRevealStep() {
+      this.clearRevealTimer();
+      this.revealStepStartedAt = Date.now();
+      this.awaitingNarration = this.isNarrating();
+      const delay = this.awaitingNarration ? REVEAL_STEP_MAX_MS : REVEAL_STEP_FALLBACK_MS;
+      this.revealTimer = this.scheduler.setTimeout(() => this.nextRevealStep(), delay);
+  }
+
+  // The narrator finished line `turn`. A line that was talked over by a
+  // newer one can still finish late; it must not move the game along.
+  handleNarrationComplete(turn) {
+      if (turn !== this.narrationTurn) return;
+      this.audioPlaying = false;
+      this.io.to(this.hostSocketId).emit('audio_complete');
+
+      if (this.state === 'REVEAL' && this.awaitingNarration) {
+          this.clearRevealTimer();
+          const elapsed = Date.now() - this.revealStepStartedAt;
+          this.revealTimer = this.scheduler.setTimeout(() => this.nextRevealStep(), Math.max(0, REVEAL_STEP_MIN_MS - elapsed));
+      }
+
+      // If auto-progress is enabled, advance after audio completes
+      if (this.autoProgress) {
+          this.handleAutoProgress();
+      }
+  }
+
+  clearRevealTimer() {
+      this.scheduler.clearTimeout(this.revealTimer);
+      this.revealTimer = null;
+      this.awaitingNarration = false;
+  }
+
+  endReveal() {
+      if (this.state !== 'REVEAL') return;
+      this.clearRevealTimer();
+      this.settleScores();
+      this.state = 'MINI_SCOREBOARD';
+      this.broadcastState();
+  }
+
+  // Every question starts here, which is when queued late joiners take their seats
+  startLieInput() {
+      this.activateQueuedPlayers();
+      this.state = 'LIE_INPUT';
+      this.broadcastState();
+      this.startTimer();
+  }
+
+  // Clear every player's lie and votes for the current question
+  resetQuestionData() {
+      this.players.forEach(p => {
+          p.currentLie = '';
+          p.currentVote = null;
+          p.secondVote = null;
+          p.lieSuggestions = [];
+          p.usedSuggestion = false;
+          p.struck = false;
+      });
+  }
+
+  // Move on to the next question, the next round's intro, or the final scoreboard
+  advanceQuestion() {
+      this.resetQuestionData();
+      this.currentQuestionIndex++;
       
-      // Schedule next step (approx time for narration + reading)
-      // In a real implementation, we might wait for Gemini to finish speaking
-      // For now, fixed timer
-      setTimeout(() => this.nextRevealStep(), 6000); 
+      // Check if game is over
+      if (this.currentQuestionIndex >= this.questions.length) {
+          this.state = 'SCOREBOARD';
+          this.broadcastState();
+      } else if (this.isFirstQuestionOfRound()) {
+          // New round - show round intro
+          this.state = 'ROUND_INTRO';
+          this.broadcastState();
+      } else {
+          // Same round - continue to next question
+          this.startLieInput();
+      }
   }
 
   nextState() {
+      if (!this.hostConnected) return;
       if (this.state === 'LOBBY') {
           // Start game -> go to round intro
           this.state = 'ROUND_INTRO';
           // Initialize Gemini when game starts
-          if (!this.gemini) {
+          if (!this.gemini && this.settings.narration) {
               this.initializeGemini();
           }
           this.broadcastState();
       } else if (this.state === 'ROUND_INTRO') {
           // After round intro -> start questions
-          this.state = 'LIE_INPUT'; 
-          this.broadcastState();
-          this.startTimer();
+          this.startLieInput();
       } else if (this.state === 'REVEAL') {
            // Skip remaining reveals if clicked early
-           this.state = 'MINI_SCOREBOARD';
-           this.broadcastState();
+           this.endReveal();
       } else if (this.state === 'MINI_SCOREBOARD') {
-          // Clear current round data
-          this.players.forEach(p => {
-              p.currentLie = '';
-              p.currentVote = null;
-          });
-          
-          this.currentQuestionIndex++;
-          
-          // Check if game is over
-          if (this.currentQuestionIndex >= this.gameData.questions.length) {
-              this.state = 'SCOREBOARD';
-              this.broadcastState();
-          } else if (this.isFirstQuestionOfRound()) {
-              // New round - show round intro
-              this.state = 'ROUND_INTRO';
-              this.broadcastState();
-          } else {
-              // Same round - continue to next question
-              this.state = 'LIE_INPUT';
-              this.broadcastState();
-              this.startTimer();
-          }
+          this.advanceQuestion();
       } else if (this.state === 'SCOREBOARD') {
           this.stopTimer();
           this.currentQuestionIndex = 0;
-          this.gameData = questionsData[Math.floor(Math.random() * questionsData.length)];
+          this.questions = this.pickQuestions();
+          this.history = [];
           this.players.forEach(p => {
               p.score = 0;
+              p.likesReceived = 0;
               p.currentLie = '';
               p.currentVote = null;
+              p.secondVote = null;
+              p.lieSuggestions = [];
+              p.usedSuggestion = false;
+              p.struck = false;
           });
+          this.activateQueuedPlayers();
           this.state = 'LOBBY';
           this.broadcastState();
       }
   }
 }
 
+Game.QUESTION_CATEGORIES = QUESTION_CATEGORIES;
+Game.MAX_AUDIENCE_SIZE = MAX_AUDIENCE_SIZE;
+
 module.exports = Game;
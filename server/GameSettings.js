@@ -0,0 +1,127 @@
+// Game structure settings chosen by the host when the room is created.
+// Everything round-related in Game (round numbering, multipliers, timers,
+// point values) is derived from one of these objects.
+
+const DEFAULT_SETTINGS = {
+  rounds: 3,                  // Normal rounds before the Final Fibbage
+  questionsPerRound: 3,
+  includeFinalFibbage: true,  // One extra question at the end
+  lieInputSeconds: 60,
+  votingSeconds: 60,
+  truthPoints: 1000,          // Base points for finding the truth
+  foolPoints: 500,            // Base points per player fooled
+  likePoints: 50,             // Bonus per like on a lie (not multiplied)
+  maxPlayers: 8,              // Later joiners become audience members
+  audiencePoints: 0,          // Bonus for the lie the audience picks most; 0 turns it off
+  roundMultipliers: [1, 2, 3], // Per round; the last value repeats for later rounds
+  finalMultiplier: 3,
+  categories: [],             // Question categories to draw from; empty means all
+  contentRating: 'standard',  // Narrator tone, see CONTENT_RATINGS
+  contentFilter: 'family',    // Profanity filter for names and lies, see CONTENT_FILTERS
+  narration: true,            // AI host narration on/off
+  idleVote: 'random',         // Players who don't vote in time: 'random' vote or 'abstain'
+  allowLateJoin: true,        // Let new players join a game in progress
+  lateJoinScore: 'lowest'     // Late joiner's starting score: 'zero', 'lowest' or 'average'
+};
+
+const CONTENT_RATINGS = ['family', 'standard', 'spicy'];
+const CONTENT_FILTERS = ['off', 'family', 'strict'];
+const IDLE_VOTE_OPTIONS = ['random', 'abstain'];
+const LATE_JOIN_SCORES = ['zero', 'lowest', 'average'];
+
+// [min, max] for every numeric setting
+const LIMITS = {
+  rounds: [1, 5],
+  questionsPerRound: [1, 5],
+  lieInputSeconds: [15, 180],
+  votingSeconds: [10, 180],
+  truthPoints: [100, 10000],
+  foolPoints: [50, 5000],
+  likePoints: [0, 500],
+  maxPlayers: [2, 16],
+  audiencePoints: [0, 2000],
+  finalMultiplier: [1, 10]
+};
+const MULTIPLIER_LIMITS = [1, 10];
+
+const isIntegerInRange = (value, [min, max]) =>
+  Number.isInteger(value) && value >= min && value <= max;
+
+// Validate a (partial) settings object on top of `base`.
+// Invalid fields are dropped and reported; the rest are applied.
+function validateSettings(input, base = DEFAULT_SETTINGS, availableCategories = null) {
+  const settings = { ...base, roundMultipliers: [...base.roundMultipliers], categories: [...base.categories] };
+  const errors = [];
+
+  if (!input || typeof input !== 'object') {
+    return { settings, errors };
+  }
+
+  for (const [key, value] of Object.entries(input)) {
+    if (key in LIMITS) {
+      if (isIntegerInRange(value, LIMITS[key])) {
+        settings[key] = value;
+      } else {
+        errors.push(`${key} must be a whole number between ${LIMITS[key][0]} and ${LIMITS[key][1]}`);
+      }
+    } else if (key === 'includeFinalFibbage' || key === 'narration' || key === 'allowLateJoin') {
+      if (typeof value === 'boolean') {
+        settings[key] = value;
+      } else {
+        errors.push(`${key} must be true or false`);
+      }
+    } else if (key === 'roundMultipliers') {
+      if (Array.isArray(value) && value.length > 0 && value.every(m => isIntegerInRange(m, MULTIPLIER_LIMITS))) {
+        settings[key] = [...value];
+      } else {
+        errors.push(`${key} must be a list of whole numbers between ${MULTIPLIER_LIMITS[0]} and ${MULTIPLIER_LIMITS[1]}`);
+      }
+    } else if (key === 'categories') {
+      const known = category => typeof category === 'string' && (!availableCategories || availableCategories.includes(category));
+      if (Array.isArray(value) && value.every(known)) {
+        settings[key] = [...new Set(value)];
+      } else {
+        errors.push(`${key} must be a list of known question categories`);
+      }
+    } else if (key === 'contentRating') {
+      if (CONTENT_RATINGS.includes(value)) {
+        settings[key] = value;
+      } else {
+        errors.push(`${key} must be one of ${CONTENT_RATINGS.join(', ')}`);
+      }
+    } else if (key === 'contentFilter') {
+      if (CONTENT_FILTERS.includes(value)) {
+        settings[key] = value;
+      } else {
+        errors.push(`${key} must be one of ${CONTENT_FILTERS.join(', ')}`);
+      }
+    } else if (key === 'idleVote') {
+      if (IDLE_VOTE_OPTIONS.includes(value)) {
+        settings[key] = value;
+      } else {
+        errors.push(`${key} must be one of ${IDLE_VOTE_OPTIONS.join(', ')}`);
+      }
+    } else if (key === 'lateJoinScore') {
+      if (LATE_JOIN_SCORES.includes(value)) {
+        settings[key] = value;
+      } else {
+        errors.push(`${key} must be one of ${LATE_JOIN_SCORES.join(', ')}`);
+      }
+    } else if (!(key in DEFAULT_SETTINGS)) {
+      errors.push(`Unknown setting: ${key}`);
+    }
+  }
+
+  return { settings, errors };
+}
+
+function getTotalQuestions(settings) {
+  return settings.rounds * settings.questionsPerRound + (settings.includeFinalFibbage ? 1 : 0);
+}
+
+module.exports = {
+  DEFAULT_SETTINGS,
+  CONTENT_RATINGS,
+  validateSettings,
+  getTotalQuestions
+};
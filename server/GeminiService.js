@@ -7,6 +7,10 @@ class GeminiService {
     this.onTurnComplete = onTurnComplete; // Callback when AI finishes speaking
     this.ws = null;
     this.isConnected = false;
+    // Turns are numbered as they are sent; the model finishes them in order,
+    // so each turnComplete belongs to the oldest turn still open
+    this.turnsSent = 0;
+    this.turnsCompleted = 0;
   }
 
   connect() {
@@ -18,6 +22,7 @@ class GeminiService {
     const url = `wss://generativelanguage.googleapis.com/ws/google.ai.generativelanguage.v1alpha.GenerativeService.BidiGenerateContent?key=${this.apiKey}`;
     
     this.ws = new WebSocket(url);
+    this.turnsCompleted = this.turnsSent; // Nothing sent before is still coming back
 
     this.ws.on('open', () => {
       console.log('Gemini Service Connected');
@@ -46,9 +51,10 @@ class GeminiService {
             
             // Detect when the model has finished its turn
             if (response.serverContent && response.serverContent.turnComplete) {
-                console.log('Gemini turn complete');
+                this.turnsCompleted = Math.min(this.turnsCompleted + 1, this.turnsSent);
+                console.log(`Gemini turn ${this.turnsCompleted} complete`);
                 if (this.onTurnComplete) {
-                    this.onTurnComplete();
+                    this.onTurnComplete(this.turnsCompleted);
                 }
             }
         } catch (e) {
@@ -67,6 +73,13 @@ class GeminiService {
     });
   }
 
+  // Close the connection for good; late messages no longer reach the game
+  disconnect() {
+    this.onAudioData = null;
+    this.onTurnComplete = null;
+    if (this.ws) this.ws.close();
+  }
+
   sendSetup() {
     const setupMsg = {
         setup: {
@@ -88,7 +101,7 @@ DO NOT read the JSON keys. Interpret the data and speak naturally as a game show
 
 Events you will handle:
 - LOBBY: Welcome players, make fun of their names if they are silly.
-- ROUND_INTRO: Explain the round rules. Round 1 is normal points (1000/500). Round 2 is double (2000/1000). Round 3 is triple (3000/1500). Final Fibbage is the last question with triple points.
+- ROUND_INTRO: Explain the round rules. Each update tells you the round number and the exact points on offer; always use those numbers. Later rounds multiply the points, and the Final Fibbage is the last question.
 - QUESTION: Read the question clearly. Then tell them to write a lie.
 - VOTING: Tell them to find the truth. The lies are on the screen.
 - REVEAL: Reveal the truth. Roast the people who got it wrong. Congratulate the truth-finders.
@@ -101,8 +114,9 @@ Events you will handle:
     this.sendMessage(setupMsg);
   }
 
+  // Returns the turn number the model will report back on completion, or null if nothing was sent
   sendContext(text) {
-      if (!this.isConnected) return;
+      if (!this.isConnected || !this.ws || this.ws.readyState !== WebSocket.OPEN) return null;
       const msg = {
           clientContent: {
               turns: [{ parts: [{ text: text }], role: "user" }],
@@ -110,6 +124,8 @@ Events you will handle:
           }
       };
       this.sendMessage(msg);
+      this.turnsSent += 1;
+      return this.turnsSent;
   }
 
   sendMessage(msg) {
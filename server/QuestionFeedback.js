@@ -0,0 +1,39 @@
+// Host feedback on the question bank. Every time a host replaces, skips or
+// voids a question it is counted against that question's id, so broken or
+// overused questions can be found and fixed in data/questions.json.
+
+const fs = require('fs');
+const path = require('path');
+
+const FEEDBACK_FILE = process.env.QUESTION_FEEDBACK_FILE || path.join(__dirname, 'data/question_feedback.json');
+const ACTIONS = ['replaced', 'skipped', 'voided'];
+
+function loadFeedback() {
+  try {
+    return JSON.parse(fs.readFileSync(FEEDBACK_FILE, 'utf8'));
+  } catch (error) {
+    if (error.code !== 'ENOENT') console.warn(`Ignoring unreadable question feedback: ${error.message}`);
+    return {};
+  }
+}
+
+const feedback = loadFeedback(); // questionId -> { text, replaced, skipped, voided, lastReportedAt }
+let pendingWrite = Promise.resolve(); // Writes are chained so they never interleave
+
+function recordFeedback(question, action) {
+  if (!question || !ACTIONS.includes(action)) return;
+  if (!feedback[question.id]) {
+    feedback[question.id] = { text: question.text, replaced: 0, skipped: 0, voided: 0, lastReportedAt: null };
+  }
+  feedback[question.id][action]++;
+  feedback[question.id].lastReportedAt = new Date().toISOString();
+
+  const contents = JSON.stringify(feedback, null, 2);
+  pendingWrite = pendingWrite
+    .then(() => fs.promises.writeFile(FEEDBACK_FILE, contents))
+    .catch(error => console.error(`Failed to save question feedback: ${error.message}`));
+}
+
+module.exports = {
+  recordFeedback
+};
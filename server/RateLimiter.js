@@ -0,0 +1,55 @@
+// Per-socket token buckets, one per event, so a misbehaving or scripted client
+// can't flood the server. Each bucket holds up to `burst` tokens and refills
+// at `perSecond`; an event that finds its bucket empty is dropped.
+
+const RATE_LIMITS = {
+  default: { burst: 10, perSecond: 5 },
+  // Room codes are short, so joining and checking rooms stay slow. Buckets
+  // are per socket, so this only slows a single connection down; a client
+  // that keeps reconnecting starts over with full buckets.
+  join_host: { burst: 3, perSecond: 0.2 },
+  join_player: { burst: 5, perSecond: 0.5 },
+  check_room: { burst: 5, perSecond: 0.5 },
+  // Clients send a handful of these on every (re)connect
+  clock_sync: { burst: 10, perSecond: 2 },
+  submit_lie: { burst: 3, perSecond: 0.5 },
+  submit_lie_suggestion: { burst: 3, perSecond: 0.5 },
+  request_lie_suggestions: { burst: 3, perSecond: 0.5 }
+};
+
+class TokenBucket {
+  constructor({ burst, perSecond }) {
+    this.capacity = burst;
+    this.refillPerMs = perSecond / 1000;
+    this.tokens = burst;
+    this.lastRefill = Date.now();
+  }
+
+  take() {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.refillPerMs);
+    this.lastRefill = now;
+    if (this.tokens < 1) return false;
+    this.tokens -= 1;
+    return true;
+  }
+}
+
+class RateLimiter {
+  constructor(limits = RATE_LIMITS) {
+    this.limits = limits;
+    this.buckets = new Map();
+  }
+
+  // Whether `event` may go through right now; spends a token if so
+  allow(event) {
+    let bucket = this.buckets.get(event);
+    if (!bucket) {
+      bucket = new TokenBucket(this.limits[event] || this.limits.default);
+      this.buckets.set(event, bucket);
+    }
+    return bucket.take();
+  }
+}
+
+module.exports = RateLimiter;
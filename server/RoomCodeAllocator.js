@@ -0,0 +1,64 @@
+// Hands out the four-letter codes players type to join a room. Codes come
+// from an alphabet without look-alike letters, are never rude, and are unique
+// among live rooms. A released code sits out a cooldown before it can be
+// handed out again, so a phone still holding it doesn't land in a stranger's
+// new game.
+
+const crypto = require('crypto');
+const { findBlockedWord } = require('./ContentFilter');
+
+// No I, L or O: they read as 1 and 0 on a TV across the room
+const ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ';
+const CODE_LENGTH = 4;
+const MAX_ATTEMPTS = 1000;
+
+const COOLDOWN_MS = (parseInt(process.env.ROOM_CODE_COOLDOWN_HOURS, 10) || 24) * 60 * 60 * 1000;
+
+// Rude words can hide anywhere in a code ("XASS"), not just fill it
+function isOffensive(code) {
+  if (findBlockedWord(code, 'strict')) return true;
+  for (let i = 0; i + 3 <= code.length; i++) {
+    if (findBlockedWord(code.slice(i, i + 3), 'family')) return true;
+  }
+  return false;
+}
+
+class RoomCodeAllocator {
+  constructor(cooldownMs = COOLDOWN_MS) {
+    this.cooldownMs = cooldownMs;
+    this.active = new Set();
+    this.released = new Map(); // code -> when it was released
+  }
+
+  allocate() {
+    this.pruneCooldowns();
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      const code = Array.from({ length: CODE_LENGTH }, () => ALPHABET[crypto.randomInt(ALPHABET.length)]).join('');
+      if (this.active.has(code) || this.released.has(code) || isOffensive(code)) continue;
+      this.active.add(code);
+      return code;
+    }
+    throw new Error('No free room codes left');
+  }
+
+  // Take a specific code, e.g. for a room restored after a restart
+  claim(code) {
+    this.released.delete(code);
+    this.active.add(code);
+  }
+
+  release(code) {
+    if (!this.active.delete(code)) return;
+    this.released.set(code, Date.now());
+  }
+
+  pruneCooldowns() {
+    const cutoff = Date.now() - this.cooldownMs;
+    for (const [code, releasedAt] of this.released) {
+      if (releasedAt > cutoff) break; // Insertion order is release order
+      this.released.delete(code);
+    }
+  }
+}
+
+module.exports = RoomCodeAllocator;
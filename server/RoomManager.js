@@ -1,50 +1,209 @@
 const Game = require('./Game');
+const { validateSettings } = require('./GameSettings');
+const { gameError } = require('./protocol');
+const RoomCodeAllocator = require('./RoomCodeAllocator');
+const { FileRoomStore } = require('./RoomStore');
+
+// How long a room survives without its host before it is torn down
+const HOST_GRACE_PERIOD_MS = (parseInt(process.env.HOST_GRACE_PERIOD_SECONDS, 10) || 60) * 1000;
+
+// Rooms with nothing happening for this long are closed by the reaper
+const ROOM_IDLE_TIMEOUT_MS = (parseInt(process.env.ROOM_IDLE_MINUTES, 10) || 30) * 60 * 1000;
+const REAPER_INTERVAL_MS = 60 * 1000;
+
+// Bans also cover the banned player's address when this is on. Off by default
+// since a party usually shares one network. Behind a proxy, TRUST_PROXY makes
+// the address come from X-Forwarded-For instead of the proxy's own.
+const BAN_BY_ADDRESS = process.env.BAN_BY_ADDRESS === 'true';
+const TRUST_PROXY = process.env.TRUST_PROXY === 'true';
+
+// Changes are saved at most this often per room; a shutdown saves everything
+const SAVE_DELAY_MS = 1000;
+
+// What players and the host are told when their room closes, by reason
+const CLOSE_MESSAGES = {
+  HOST_LEFT: 'The host has left the game',
+  IDLE: 'This room was closed after being idle for too long'
+};
 
 class RoomManager {
-  constructor(io) {
+  constructor(io, store = new FileRoomStore()) {
     this.io = io;
+    this.store = store; // Room snapshots, so games survive a restart
+    this.saveTimers = new Map(); // roomCode -> pending save
     this.rooms = new Map(); // roomCode -> Game instance
     this.socketToRoom = new Map(); // socketId -> roomCode
-  }
-
-  generateRoomCode() {
-    return Math.random().toString(36).substring(2, 6).toUpperCase();
+    this.hostGraceTimers = new Map(); // roomCode -> timeout pending room teardown
+    this.roomCodes = new RoomCodeAllocator();
+    this.banByAddress = BAN_BY_ADDRESS;
+    this.reaperInterval = setInterval(() => this.reapIdleRooms(), REAPER_INTERVAL_MS);
+    this.reaperInterval.unref(); // Never keeps the process alive on its own
   }
 
   isRoomActive(roomCode) {
     return this.rooms.has(roomCode);
   }
 
-  createRoom(hostSocket) {
-    const roomCode = this.generateRoomCode();
+  createRoom(hostSocket, requestedSettings) {
+    const roomCode = this.roomCodes.allocate();
+    const { settings, errors } = validateSettings(requestedSettings, undefined, Game.QUESTION_CATEGORIES);
+    if (errors.length > 0) {
+      console.warn(`Ignoring invalid settings for room ${roomCode}: ${errors.join('; ')}`);
+    }
     // Pass socket.io to Game for generic events, but Game also now handles Gemini logic internally if we move it there.
     // However, Plan Step 2 says "Integrate GeminiService into Game class".
-    const game = new Game(this.io, roomCode, hostSocket.id);
-    game.initializeGemini(); // Start AI
+    const game = new Game(this.io, roomCode, hostSocket.id, settings);
+    if (settings.narration) game.initializeGemini(); // Start AI
     
-    this.rooms.set(roomCode, game);
+    this.addRoom(game);
     this.socketToRoom.set(hostSocket.id, roomCode);
     
     hostSocket.join(roomCode);
-    hostSocket.emit('room_created', { roomCode });
+    hostSocket.emit('room_created', { roomCode, hostToken: game.hostToken });
     console.log(`Room created: ${roomCode} by host ${hostSocket.id}`);
   }
 
-  joinRoom(playerSocket, roomCode, playerName) {
+  addRoom(game) {
+    this.rooms.set(game.roomCode, game);
+    game.onStateChange = () => this.scheduleSave(game.roomCode);
+    this.scheduleSave(game.roomCode);
+  }
+
+  scheduleSave(roomCode) {
+    if (this.saveTimers.has(roomCode)) return;
+    const timer = setTimeout(() => {
+      this.saveTimers.delete(roomCode);
+      this.saveRoom(roomCode);
+    }, SAVE_DELAY_MS);
+    timer.unref();
+    this.saveTimers.set(roomCode, timer);
+  }
+
+  saveRoom(roomCode) {
     const game = this.rooms.get(roomCode);
+    return game ? this.store.save(roomCode, game.toSnapshot()) : Promise.resolve();
+  }
+
+  // Save every room right away, e.g. before the process exits
+  saveAllRooms() {
+    this.saveTimers.forEach(timer => clearTimeout(timer));
+    this.saveTimers.clear();
+    return Promise.all([...this.rooms.keys()].map(roomCode => this.saveRoom(roomCode)));
+  }
+
+  // Bring back the rooms saved before a restart. Hosts and players get back
+  // in with the tokens they already hold; a host that doesn't return within
+  // the grace period loses the room as usual.
+  async restoreRooms() {
+    const snapshots = await this.store.loadAll();
+    for (const snapshot of snapshots) {
+      const game = Game.fromSnapshot(this.io, snapshot);
+      if (!game || this.rooms.has(game.roomCode)) {
+        console.warn(`Dropping saved room ${snapshot.roomCode}: it can't be restored`);
+        if (snapshot.roomCode) this.store.remove(snapshot.roomCode);
+        continue;
+      }
+      this.roomCodes.claim(game.roomCode);
+      if (game.settings.narration) game.initializeGemini();
+      this.addRoom(game);
+      this.startHostGracePeriod(game.roomCode);
+      console.log(`Room restored: ${game.roomCode} (${game.state}, ${game.players.size} players)`);
+    }
+  }
+
+  // Close the room unless its host comes back in time
+  startHostGracePeriod(roomCode) {
+    clearTimeout(this.hostGraceTimers.get(roomCode));
+    this.hostGraceTimers.set(roomCode, setTimeout(() => this.destroyRoom(roomCode), HOST_GRACE_PERIOD_MS));
+  }
+
+  // Reattach a (refreshed or reconnected) host to its existing game.
+  // Returns false when the room is gone or the token doesn't match.
+  resumeHost(hostSocket, roomCode, hostToken) {
+    const game = this.rooms.get(roomCode);
+    if (!game || !hostToken || game.hostToken !== hostToken) return false;
+
+    const graceTimer = this.hostGraceTimers.get(roomCode);
+    if (graceTimer) {
+      clearTimeout(graceTimer);
+      this.hostGraceTimers.delete(roomCode);
+    }
+
+    this.socketToRoom.set(hostSocket.id, roomCode);
+    hostSocket.join(roomCode);
+    hostSocket.emit('room_created', { roomCode, hostToken: game.hostToken });
+    game.attachHost(hostSocket.id);
+    return true;
+  }
+
+  destroyRoom(roomCode, reason = 'HOST_LEFT') {
+    const game = this.rooms.get(roomCode);
+    if (!game) return;
+
+    console.log(`Closing room ${roomCode}`);
+    this.io.to(roomCode).emit('error', gameError('ROOM_CLOSED', CLOSE_MESSAGES[reason], { roomCode, reason }));
+    game.dispose();
+    this.rooms.delete(roomCode);
+    this.roomCodes.release(roomCode);
+    clearTimeout(this.saveTimers.get(roomCode));
+    this.saveTimers.delete(roomCode);
+    this.store.remove(roomCode);
+    clearTimeout(this.hostGraceTimers.get(roomCode));
+    this.hostGraceTimers.delete(roomCode);
+    for (const [socketId, code] of this.socketToRoom) {
+      if (code === roomCode) this.socketToRoom.delete(socketId);
+    }
+  }
+
+  reapIdleRooms() {
+    const now = Date.now();
+    for (const [roomCode, game] of this.rooms) {
+      if (now - game.lastActivityAt >= ROOM_IDLE_TIMEOUT_MS) {
+        console.log(`Room ${roomCode} idle for ${ROOM_IDLE_TIMEOUT_MS / 60000} minutes`);
+        this.destroyRoom(roomCode, 'IDLE');
+      }
+    }
+  }
+
+  joinRoom(playerSocket, roomCode, playerName, sessionToken, deviceId) {
+    const game = this.rooms.get(roomCode);
+    const name = playerName.trim(); // Names are shown and compared without padding
     if (!game) {
-      playerSocket.emit('error', { message: 'Room not found' });
+      playerSocket.emit('error', gameError('ROOM_NOT_FOUND', 'Room not found', { roomCode }));
       return;
     }
 
-    if (game.state !== 'LOBBY') {
-       // Allow reconnect?
+    // A banned player's seat is gone, so bans only ever stop newcomers: a
+    // token that still finds a seat gets it back, whatever network it is on
+    const returning = sessionToken && game.findPlayerBySession(sessionToken);
+    if (!returning && game.isBanned(sessionToken, deviceId, this.getBannableAddress(playerSocket))) {
+      playerSocket.emit('error', gameError('BANNED', 'You have been removed from this game'));
+      return;
     }
 
+    // Past the player cap, newcomers watch and vote as the audience instead.
+    if (!returning && game.isFull()) {
+      if (game.isAudienceFull()) {
+        playerSocket.emit('error', gameError('ROOM_FULL', 'This game is full', { limit: Game.MAX_AUDIENCE_SIZE }));
+        return;
+      }
+      this.socketToRoom.set(playerSocket.id, roomCode);
+      playerSocket.join(roomCode);
+      playerSocket.join(game.getAudienceChannel());
+      game.addAudienceMember(playerSocket.id, name);
+      return;
+    }
+
+    // Mid-game newcomers are queued for the next question, if the host allows it
+    if (!returning && game.state !== 'LOBBY' && !game.settings.allowLateJoin) {
+      playerSocket.emit('error', gameError('GAME_IN_PROGRESS', 'This game has already started'));
+      return;
+    }
+
+    if (!game.addPlayer(playerSocket.id, name, sessionToken, deviceId)) return;
+
     this.socketToRoom.set(playerSocket.id, roomCode);
     playerSocket.join(roomCode);
-    
-    game.addPlayer(playerSocket.id, playerName);
   }
 
   handleLie(socket, roomCode, lie) {
@@ -52,38 +211,142 @@ class RoomManager {
     if (game) game.receiveLie(socket.id, lie);
   }
 
-  handleVote(socket, roomCode, choiceId) {
+  handleLieSuggestions(socket, roomCode) {
+    const game = this.rooms.get(roomCode);
+    if (game) game.offerLieSuggestions(socket.id);
+  }
+
+  handleSuggestedLie(socket, roomCode, suggestion) {
     const game = this.rooms.get(roomCode);
-    if (game) game.receiveVote(socket.id, choiceId);
+    if (game) game.receiveSuggestedLie(socket.id, suggestion);
+  }
+
+  handleVote(socket, roomCode, vote) {
+    const game = this.rooms.get(roomCode);
+    if (game) game.receiveVote(socket.id, vote);
   }
   
-  handleNext(socket, roomCode) {
+  handleAudienceVote(socket, roomCode, choiceId) {
+    const game = this.rooms.get(roomCode);
+    if (game) game.receiveAudienceVote(socket.id, choiceId);
+  }
+  
+  handleLike(socket, roomCode, lieId) {
+    const game = this.rooms.get(roomCode);
+    if (game) game.toggleLike(socket.id, lieId);
+  }
+  
+  // The game `socket` hosts, or null after telling the socket why not
+  getHostedGame(socket, roomCode) {
       const game = this.rooms.get(roomCode);
-      if (game && game.hostSocketId === socket.id) {
-          game.nextState();
+      if (!game) {
+          socket.emit('error', gameError('ROOM_NOT_FOUND', 'Room not found', { roomCode }));
+          return null;
+      }
+      if (game.hostSocketId !== socket.id) {
+          socket.emit('error', gameError('NOT_HOST', 'Only the host can do that'));
+          return null;
+      }
+      return game;
+  }
+
+  // The address a ban should cover, or null while address bans are off
+  getBannableAddress(socket) {
+      if (!this.banByAddress) return null;
+      const forwarded = TRUST_PROXY && socket.handshake.headers['x-forwarded-for'];
+      return forwarded ? forwarded.split(',')[0].trim() : socket.handshake.address;
+  }
+
+  handleNext(socket, roomCode) {
+      const game = this.getHostedGame(socket, roomCode);
+      if (game) game.nextState();
+  }
+  
+  handleUpdateSettings(socket, roomCode, settings) {
+      const game = this.getHostedGame(socket, roomCode);
+      if (!game) return;
+
+      const errors = game.updateSettings(settings);
+      if (errors.length > 0) {
+          socket.emit('error', gameError('INVALID_SETTINGS', errors.join('. '), { errors }));
       }
   }
   
   handleSetAutoProgress(socket, roomCode, enabled) {
-      const game = this.rooms.get(roomCode);
-      if (game && game.hostSocketId === socket.id) {
-          game.setAutoProgress(enabled);
+      const game = this.getHostedGame(socket, roomCode);
+      if (game) game.setAutoProgress(enabled);
+  }
+
+  handleSetLateJoin(socket, roomCode, enabled) {
+      const game = this.getHostedGame(socket, roomCode);
+      if (game) game.setLateJoin(enabled);
+  }
+
+  handlePauseTimer(socket, roomCode) {
+      const game = this.getHostedGame(socket, roomCode);
+      if (game) game.hostPauseTimer();
+  }
+
+  handleResumeTimer(socket, roomCode) {
+      const game = this.getHostedGame(socket, roomCode);
+      if (game) game.hostResumeTimer();
+  }
+
+  handleAddTime(socket, roomCode, seconds) {
+      const game = this.getHostedGame(socket, roomCode);
+      if (game) game.addTime(seconds);
+  }
+
+  // Host question controls: replace, skip or void the current question
+  handleQuestionControl(socket, roomCode, action) {
+      const game = this.getHostedGame(socket, roomCode);
+      if (!game) return;
+
+      const error = action === 'replace' ? game.replaceQuestion()
+          : action === 'skip' ? game.skipQuestion()
+          : game.voidQuestion();
+      if (error) socket.emit('error', gameError('ACTION_FAILED', error, { action }));
+  }
+
+  handleKickPlayer(socket, roomCode, playerId, ban) {
+      const game = this.getHostedGame(socket, roomCode);
+      if (!game) return;
+
+      const player = game.kickPlayer(playerId);
+      if (!player) return;
+      const playerSocket = player.socketId && this.io.sockets.sockets.get(player.socketId);
+      if (ban) game.ban(player, playerSocket && this.getBannableAddress(playerSocket));
+      if (playerSocket) {
+          playerSocket.emit('error', gameError(ban ? 'BANNED' : 'KICKED', 'You have been removed from this game'));
+          playerSocket.leave(roomCode);
+          this.socketToRoom.delete(playerSocket.id);
       }
   }
 
+  handleRenamePlayer(socket, roomCode, playerId, name) {
+      const game = this.getHostedGame(socket, roomCode);
+      if (!game) return;
+
+      const error = game.renamePlayer(playerId, name);
+      if (error) socket.emit('error', gameError('ACTION_FAILED', error, { action: 'rename' }));
+  }
+
+  handleStrikeLie(socket, roomCode, playerId) {
+      const game = this.getHostedGame(socket, roomCode);
+      if (game) game.strikeLie(playerId);
+  }
+
   handleDisconnect(socket) {
     const roomCode = this.socketToRoom.get(socket.id);
     if (roomCode) {
       const game = this.rooms.get(roomCode);
       if (game) {
         game.removePlayer(socket.id);
+        game.removeAudienceMember(socket.id);
         if (game.hostSocketId === socket.id) {
-            console.log(`Host left room ${roomCode}`);
-            // Clean up Gemini connection
-            if (game.gemini) {
-                game.gemini.ws?.close();
-            }
-            this.rooms.delete(roomCode);
+            console.log(`Host left room ${roomCode}, waiting ${HOST_GRACE_PERIOD_MS / 1000}s for them to return`);
+            game.detachHost();
+            this.startHostGracePeriod(roomCode);
         }
       }
       this.socketToRoom.delete(socket.id);
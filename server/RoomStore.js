@@ -0,0 +1,70 @@
+// Where room snapshots (see Game.toSnapshot) live between server restarts.
+// RoomManager takes any store with the same three methods, so a shared
+// store (Redis, a database) can replace the file-backed default. Every
+// method returns a promise; saves and removals never throw.
+
+const fs = require('fs');
+const path = require('path');
+
+const DEFAULT_DIRECTORY = process.env.ROOM_STORE_DIR || path.join(__dirname, 'data/rooms');
+
+// One JSON file per room
+class FileRoomStore {
+  constructor(directory = DEFAULT_DIRECTORY) {
+    this.directory = directory;
+    this.pendingWrite = Promise.resolve(); // Writes are chained so they never interleave
+  }
+
+  fileFor(roomCode) {
+    return path.join(this.directory, `${roomCode}.json`);
+  }
+
+  enqueue(description, write) {
+    this.pendingWrite = this.pendingWrite
+      .then(write)
+      .catch(error => console.error(`Failed to ${description}: ${error.message}`));
+    return this.pendingWrite;
+  }
+
+  save(roomCode, snapshot) {
+    const contents = JSON.stringify(snapshot);
+    const file = this.fileFor(roomCode);
+    // Write beside the old snapshot and swap it in, so a crash mid-write
+    // never leaves a half-written room behind
+    return this.enqueue(`save room ${roomCode}`, async () => {
+      await fs.promises.mkdir(this.directory, { recursive: true });
+      await fs.promises.writeFile(`${file}.tmp`, contents);
+      await fs.promises.rename(`${file}.tmp`, file);
+    });
+  }
+
+  remove(roomCode) {
+    return this.enqueue(`remove room ${roomCode}`, () =>
+      fs.promises.rm(this.fileFor(roomCode), { force: true })
+    );
+  }
+
+  async loadAll() {
+    let files;
+    try {
+      files = await fs.promises.readdir(this.directory);
+    } catch (error) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const snapshots = [];
+    for (const file of files.filter(name => name.endsWith('.json'))) {
+      try {
+        snapshots.push(JSON.parse(await fs.promises.readFile(path.join(this.directory, file), 'utf8')));
+      } catch (error) {
+        console.warn(`Ignoring unreadable room snapshot ${file}: ${error.message}`);
+      }
+    }
+    return snapshots;
+  }
+}
+
+module.exports = {
+  FileRoomStore
+};
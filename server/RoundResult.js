@@ -0,0 +1,99 @@
+// Scoring breakdown for one question: who found the truth, who fooled whom,
+// every bonus, and each player's score and rank before and after.
+// Game builds one in calculateScores, emits it at REVEAL and keeps it in its history.
+
+// Standard competition ranking ("1, 2, 2, 4"): 1 + players with a higher score
+function rankScores(scores) {
+  const ranks = new Map();
+  scores.forEach((score, id) => {
+    let higher = 0;
+    scores.forEach(other => { if (other > score) higher++; });
+    ranks.set(id, higher + 1);
+  });
+  return ranks;
+}
+
+function getScores(players) {
+  const scores = new Map();
+  players.forEach((p, id) => scores.set(id, p.score));
+  return scores;
+}
+
+class RoundResult {
+  constructor({ questionNumber, roundNumber, isFinalFibbage, question, truth }, players) {
+    this.questionNumber = questionNumber;
+    this.roundNumber = roundNumber;
+    this.isFinalFibbage = isFinalFibbage;
+    this.question = question;
+    this.truth = truth;
+
+    const ranks = rankScores(getScores(players));
+    this.entries = new Map(); // playerId -> breakdown
+    players.forEach((p, id) => {
+      this.entries.set(id, {
+        playerId: id,
+        name: p.name,
+        foundTruth: false,
+        truthPoints: 0,
+        fooled: [],       // Names of the players this player's lie fooled
+        foolPoints: 0,
+        bonuses: [],      // { type: 'likes' | 'audience', points, count? }
+        totalPoints: 0,
+        scoreBefore: p.score,
+        scoreAfter: p.score,
+        rankBefore: ranks.get(id),
+        rankAfter: ranks.get(id)
+      });
+    });
+  }
+
+  addTruth(playerId, points) {
+    const entry = this.entries.get(playerId);
+    if (!entry) return;
+    entry.foundTruth = true;
+    entry.truthPoints += points;
+  }
+
+  addFool(authorId, victimName, points) {
+    const entry = this.entries.get(authorId);
+    if (!entry) return;
+    entry.fooled.push(victimName);
+    entry.foolPoints += points;
+  }
+
+  addBonus(playerId, bonus) {
+    const entry = this.entries.get(playerId);
+    if (!entry || bonus.points <= 0) return;
+    entry.bonuses.push(bonus);
+  }
+
+  // Add every player's points to their score and fill in the "after" columns
+  applyTo(players) {
+    this.entries.forEach((entry, id) => {
+      const player = players.get(id);
+      if (!player) return;
+      entry.totalPoints = entry.truthPoints + entry.foolPoints +
+        entry.bonuses.reduce((sum, bonus) => sum + bonus.points, 0);
+      player.score += entry.totalPoints;
+      entry.scoreAfter = player.score;
+    });
+
+    const ranks = rankScores(getScores(players));
+    this.entries.forEach((entry, id) => {
+      if (ranks.has(id)) entry.rankAfter = ranks.get(id);
+    });
+  }
+
+  toJSON() {
+    return {
+      questionNumber: this.questionNumber,
+      roundNumber: this.roundNumber,
+      isFinalFibbage: this.isFinalFibbage,
+      question: this.question,
+      truth: this.truth,
+      players: Array.from(this.entries.values()).sort((a, b) => a.rankAfter - b.rankAfter)
+    };
+  }
+}
+
+module.exports = RoundResult;
@@ -0,0 +1,39 @@
+// Owns every timer a Game starts, so closing a room can cancel all of them
+// at once. A disposed scheduler refuses new timers, which keeps callbacks
+// still in flight from rescheduling anything on a dead room.
+
+class Scheduler {
+  constructor() {
+    this.timers = new Set();
+    this.disposed = false;
+  }
+
+  setTimeout(callback, delay) {
+    if (this.disposed) return null;
+    const handle = setTimeout(() => {
+      this.timers.delete(handle);
+      callback();
+    }, delay);
+    this.timers.add(handle);
+    return handle;
+  }
+
+  clearTimeout(handle) {
+    if (!handle) return;
+    clearTimeout(handle);
+    this.timers.delete(handle);
+  }
+
+  // Timers that have not fired or been cleared yet
+  get pendingCount() {
+    return this.timers.size;
+  }
+
+  dispose() {
+    this.timers.forEach(handle => clearTimeout(handle));
+    this.timers.clear();
+    this.disposed = true;
+  }
+}
+
+module.exports = Scheduler;
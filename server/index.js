@@ -7,6 +7,8 @@ require('dotenv').config({ path: '../.env' }); // Look for .env in root
 const { GoogleGenAI } = require('@google/genai');
 
 const RoomManager = require('./RoomManager');
+const { PROTOCOL_VERSION, CLIENT_EVENTS, validatePayload, gameError } = require('./protocol');
+const RateLimiter = require('./RateLimiter');
 
 const app = express();
 const server = http.createServer(app);
@@ -47,6 +49,15 @@ const roomManager = new RoomManager(io);
 
 // Removed /api/token endpoint - server handles Gemini directly
 
+// Turn away clients built against another protocol version (a stale tab
+// after a deploy) before they can send payloads we no longer understand
+io.use((socket, next) => {
+  const clientVersion = socket.handshake.auth?.protocolVersion;
+  if (clientVersion === PROTOCOL_VERSION) return next();
+  console.warn(`[${new Date().toISOString()}] ⛔ Protocol mismatch from ${socket.handshake.address}: client ${clientVersion}, server ${PROTOCOL_VERSION}`);
+  next(new Error('This game has been updated - please refresh the page.'));
+});
+
 io.on('connection', (socket) => {
   const connectTime = new Date().toISOString();
   console.log(`[${connectTime}] ✅ User connected:`, socket.id);
@@ -54,13 +65,45 @@ io.on('connection', (socket) => {
   console.log(`   User-Agent: ${socket.handshake.headers['user-agent']?.substring(0, 100)}`);
   console.log(`   IP: ${socket.handshake.address}`);
 
+  // Client events go through here: a flooded or malformed event is dropped
+  // and the sender told why, and a handler that throws can't take the
+  // server down with it
+  const rateLimiter = new RateLimiter();
+  const floodedEvents = new Set(); // Only the first drop of a flood is logged
+  const reject = (event, code, message) => {
+    if (code !== 'RATE_LIMITED' || !floodedEvents.has(event)) {
+      console.warn(`[${new Date().toISOString()}] ⚠️ Rejected ${event} from ${socket.id} (${code}): ${message}`);
+    }
+    if (code === 'RATE_LIMITED') floodedEvents.add(event);
+    socket.emit('error', gameError(code, message, { event }));
+  };
+  const on = (event, handler) => {
+    socket.on(event, (payload) => {
+      if (!rateLimiter.allow(event)) {
+        reject(event, 'RATE_LIMITED', 'Slow down! Try again in a moment.');
+        return;
+      }
+      floodedEvents.delete(event);
+      const problem = validatePayload(event, payload);
+      if (problem) {
+        reject(event, 'INVALID_PAYLOAD', problem);
+        return;
+      }
+      try {
+        handler(payload);
+      } catch (error) {
+        console.error(`[${new Date().toISOString()}] ❌ ${event} handler failed for ${socket.id}:`, error);
+        reject(event, 'SERVER_ERROR', 'Something went wrong. Please try again.');
+      }
+    });
+  };
+  socket.onAny((event) => {
+    if (CLIENT_EVENTS.includes(event) || !rateLimiter.allow('unknown')) return;
+    reject(String(event), 'INVALID_PAYLOAD', `unknown event "${event}"`);
+  });
+
   // Custom ping/pong handler for mobile keep-alive
-  let lastPing = Date.now();
-  socket.on('ping', () => {
-    const now = Date.now();
-    const timeSinceLastPing = now - lastPing;
-    lastPing = now;
-    console.log(`[${new Date().toISOString()}] 💓 Ping from ${socket.id} (${timeSinceLastPing}ms since last)`);
+  on('ping', () => {
     socket.emit('pong');
   });
 
@@ -92,37 +135,109 @@ io.on('connection', (socket) => {
     console.log(`[${new Date().toISOString()}] 📡 Client->Server pong from ${socket.id}`);
   });
 
-  socket.on('join_host', () => {
-    console.log(`[${new Date().toISOString()}] 🎮 Host joined: ${socket.id}`);
-    roomManager.createRoom(socket);
+  on('join_host', ({ roomCode, hostToken, settings }) => {
+    console.log(`[${new Date().toISOString()}] 🎮 Host joined: ${socket.id}${roomCode ? `, resuming ${roomCode}` : ''}`);
+    // A host coming back with a valid token gets its old room, otherwise a new one
+    if (roomCode && roomManager.resumeHost(socket, roomCode, hostToken)) return;
+    roomManager.createRoom(socket, settings);
+  });
+
+  on('join_player', ({ roomCode, playerName, sessionToken, deviceId }) => {
+    console.log(`[${new Date().toISOString()}] 🎮 Player joined: ${socket.id}, Room: ${roomCode}, Name: ${playerName}${sessionToken ? ' (resuming)' : ''}`);
+    roomManager.joinRoom(socket, roomCode, playerName, sessionToken, deviceId);
   });
 
-  socket.on('join_player', ({ roomCode, playerName }) => {
-    console.log(`[${new Date().toISOString()}] 🎮 Player joined: ${socket.id}, Room: ${roomCode}, Name: ${playerName}`);
-    roomManager.joinRoom(socket, roomCode, playerName);
+  // Clock offset handshake: clients time the round trip to estimate our clock
+  // and count phase deadlines down against it
+  on('clock_sync', ({ clientTime }) => {
+    socket.emit('clock_sync', { clientTime, serverTime: Date.now() });
   });
 
-  socket.on('check_room', ({ roomCode }) => {
+  on('check_room', ({ roomCode }) => {
     const active = roomManager.isRoomActive(roomCode);
     socket.emit('room_check_result', { roomCode, active });
   });
 
-  socket.on('submit_lie', ({ roomCode, lie }) => {
+  on('submit_lie', ({ roomCode, lie }) => {
     roomManager.handleLie(socket, roomCode, lie);
   });
 
-  socket.on('submit_vote', ({ roomCode, choiceId }) => {
-    roomManager.handleVote(socket, roomCode, choiceId);
+  on('request_lie_suggestions', ({ roomCode }) => {
+    roomManager.handleLieSuggestions(socket, roomCode);
+  });
+
+  on('submit_lie_suggestion', ({ roomCode, suggestion }) => {
+    roomManager.handleSuggestedLie(socket, roomCode, suggestion);
+  });
+
+  // Final Fibbage votes send `picks: { first, second }` instead of a choiceId
+  on('submit_vote', ({ roomCode, choiceId, picks }) => {
+    roomManager.handleVote(socket, roomCode, picks || choiceId);
   });
 
-  socket.on('request_next', ({ roomCode }) => {
+  on('submit_audience_vote', ({ roomCode, choiceId }) => {
+    roomManager.handleAudienceVote(socket, roomCode, choiceId);
+  });
+
+  on('toggle_like', ({ roomCode, lieId }) => {
+    roomManager.handleLike(socket, roomCode, lieId);
+  });
+
+  on('request_next', ({ roomCode }) => {
      roomManager.handleNext(socket, roomCode);
   });
 
-  socket.on('set_auto_progress', ({ roomCode, enabled }) => {
+  on('update_settings', ({ roomCode, settings }) => {
+     roomManager.handleUpdateSettings(socket, roomCode, settings);
+  });
+
+  on('set_auto_progress', ({ roomCode, enabled }) => {
      roomManager.handleSetAutoProgress(socket, roomCode, enabled);
   });
 
+  on('set_late_join', ({ roomCode, enabled }) => {
+     roomManager.handleSetLateJoin(socket, roomCode, enabled);
+  });
+
+  // Host timer controls for the current phase
+  on('pause_timer', ({ roomCode }) => {
+     roomManager.handlePauseTimer(socket, roomCode);
+  });
+
+  on('resume_timer', ({ roomCode }) => {
+     roomManager.handleResumeTimer(socket, roomCode);
+  });
+
+  on('add_time', ({ roomCode, seconds }) => {
+     roomManager.handleAddTime(socket, roomCode, seconds);
+  });
+
+  // Host question controls for broken questions
+  on('replace_question', ({ roomCode }) => {
+     roomManager.handleQuestionControl(socket, roomCode, 'replace');
+  });
+
+  on('skip_question', ({ roomCode }) => {
+     roomManager.handleQuestionControl(socket, roomCode, 'skip');
+  });
+
+  on('void_question', ({ roomCode }) => {
+     roomManager.handleQuestionControl(socket, roomCode, 'void');
+  });
+
+  // Host moderation
+  on('kick_player', ({ roomCode, playerId, ban }) => {
+     roomManager.handleKickPlayer(socket, roomCode, playerId, !!ban);
+  });
+
+  on('rename_player', ({ roomCode, playerId, name }) => {
+     roomManager.handleRenamePlayer(socket, roomCode, playerId, name);
+  });
+
+  on('strike_lie', ({ roomCode, playerId }) => {
+     roomManager.handleStrikeLie(socket, roomCode, playerId);
+  });
+
   socket.on('disconnect', (reason) => {
     const disconnectTime = new Date().toISOString();
     const connectionDuration = Date.now() - new Date(connectTime).getTime();
@@ -146,7 +261,21 @@ io.on('connection', (socket) => {
 //   });
 // }
 
+// pm2 restarts and deploys stop the process with a signal: save every room
+// first so the next process can bring the games back
+const shutdown = (signal) => {
+  console.log(`${signal} received, saving rooms before exit`);
+  roomManager.saveAllRooms().finally(() => process.exit(0));
+};
+process.once('SIGINT', shutdown);
+process.once('SIGTERM', shutdown);
+
 const PORT = process.env.PORT || 3001;
-server.listen(PORT, '0.0.0.0', () => {
-  console.log(`Server running on port ${PORT} (${process.env.NODE_ENV || 'development'})`);
-});
+// Rooms saved by the previous process come back before anyone can connect
+roomManager.restoreRooms()
+  .catch(error => console.error(`Failed to restore rooms: ${error.message}`))
+  .finally(() => {
+    server.listen(PORT, '0.0.0.0', () => {
+      console.log(`Server running on port ${PORT} (${process.env.NODE_ENV || 'development'})`);
+    });
+  });
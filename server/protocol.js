@@ -0,0 +1,119 @@
+// Server side of the socket protocol. Events, payload shapes and the
+// protocol version all come from shared/protocol.json, the same source the
+// client's types are generated from. Each field of an inbound payload is
+// checked against its shape's top-level type so a malformed payload is
+// dropped before it reaches a handler; handlers check nested values such as
+// settings themselves. An optional field may also be left null.
+// Free-text fields are also held to the length and charset limits below,
+// whichever event carries them; a minimum length counts what is left after
+// trimming, so a name can't be all spaces.
+
+const protocol = require('../shared/protocol.json');
+
+const PROTOCOL_VERSION = protocol.version;
+const CLIENT_EVENTS = Object.keys(protocol.clientEvents);
+const SERVER_EVENTS = Object.keys(protocol.serverEvents);
+const TEXT_LIMITS = protocol.limits;
+const ERROR_CODES = protocol.types.ErrorCode.oneOf;
+
+// Control characters, private-use code points, lone surrogates and invisible
+// formatting (bidi overrides, zero-width spaces). The zero-width joiner stays
+// allowed since multi-part emoji need it.
+const HIDDEN_CHARACTERS = /[\p{Cc}\p{Co}\p{Cs}]|(?!\u200D)\p{Cf}/u;
+
+const NAME = { minLength: 1, maxLength: TEXT_LIMITS.nameLength };
+const LIE = { maxLength: TEXT_LIMITS.lieLength };
+const ID = { maxLength: 64 };
+
+const FIELD_LIMITS = {
+  roomCode: { maxLength: TEXT_LIMITS.roomCodeLength, pattern: /^[A-Z0-9]+$/ },
+  playerName: NAME,
+  name: NAME,
+  lie: LIE,
+  suggestion: LIE,
+  hostToken: ID,
+  sessionToken: ID,
+  deviceId: ID,
+  choiceId: ID,
+  lieId: ID,
+  playerId: ID
+};
+
+// The JavaScript type a value of `shape` has ('string', 'object', ...)
+function typeOfShape(shape) {
+  if (typeof shape === 'string') {
+    if (['string', 'number', 'boolean'].includes(shape)) return shape;
+    return typeOfShape(protocol.types[shape]);
+  }
+  if (shape.nullable) return typeOfShape(shape.nullable);
+  if (shape.oneOf) return typeof shape.oneOf[0];
+  if (shape.arrayOf) return 'array';
+  return 'object';
+}
+
+// Each client event's payload as { field: type }, with a trailing '?' on
+// optional fields; null for events without a payload
+const CLIENT_EVENT_SCHEMAS = Object.fromEntries(
+  Object.entries(protocol.clientEvents).map(([event, payload]) => [event, payload && Object.fromEntries(
+    Object.entries(payload).map(([field, shape]) => [field, shape.optional ? `${typeOfShape(shape.optional)}?` : typeOfShape(shape)])
+  )])
+);
+
+function checkText(field, value) {
+  const limits = FIELD_LIMITS[field];
+  if (!limits) return null;
+  if (limits.minLength && value.trim().length < limits.minLength) return `"${field}" can't be blank`;
+  if (value.length > limits.maxLength) return `"${field}" must be at most ${limits.maxLength} characters`;
+  if (HIDDEN_CHARACTERS.test(value)) return `"${field}" contains characters that aren't allowed`;
+  if (limits.pattern && !limits.pattern.test(value)) return `"${field}" is malformed`;
+  return null;
+}
+
+function typeOf(value) {
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+// Why `payload` doesn't fit `event`'s shape, or null when it does
+function validatePayload(event, payload) {
+  if (!Object.prototype.hasOwnProperty.call(CLIENT_EVENT_SCHEMAS, event)) return `unknown event "${event}"`;
+  const schema = CLIENT_EVENT_SCHEMAS[event];
+  if (!schema) return null;
+  if (!payload || typeOf(payload) !== 'object') return 'payload must be an object';
+
+  for (const [field, spec] of Object.entries(schema)) {
+    const optional = spec.endsWith('?');
+    const type = optional ? spec.slice(0, -1) : spec;
+    const value = payload[field];
+    if (value === undefined || value === null) {
+      if (optional) continue;
+      return `"${field}" is required`;
+    }
+    if (typeOf(value) !== type || (type === 'number' && !Number.isFinite(value))) {
+      return `"${field}" must be a ${type}`;
+    }
+    if (type === 'string') {
+      const problem = checkText(field, value);
+      if (problem) return problem;
+    }
+  }
+  return null;
+}
+
+// Payload for an 'error' event: a code the client maps to a recovery path, a
+// message it can show as-is, and whatever details that recovery needs
+function gameError(code, message, details = {}) {
+  if (!ERROR_CODES.includes(code)) throw new Error(`Unknown error code ${code}`);
+  return { code, message, details };
+}
+
+module.exports = {
+  PROTOCOL_VERSION,
+  CLIENT_EVENTS,
+  SERVER_EVENTS,
+  TEXT_LIMITS,
+  ERROR_CODES,
+  CLIENT_EVENT_SCHEMAS,
+  validatePayload,
+  gameError
+};
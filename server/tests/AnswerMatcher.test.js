@@ -0,0 +1,23 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { isNearMatch } = require('../AnswerMatcher');
+
+test('typos, plurals, articles and spacing still match', () => {
+  assert.ok(isNearMatch('giraffe', 'girafe'));
+  assert.ok(isNearMatch('The Beatles', 'beatle'));
+  assert.ok(isNearMatch('ice cream', 'icecream'));
+  assert.ok(isNearMatch('berries', 'berry'));
+  assert.ok(isNearMatch('1,200 years', '1200 years'));
+});
+
+test('numbers have to match exactly', () => {
+  assert.ok(!isNearMatch('12 feet', '13 feet'));
+  assert.ok(!isNearMatch('1,200 years', '1,300 years'));
+  assert.ok(!isNearMatch('1999', '1998'));
+});
+
+test('a different real word is not a typo', () => {
+  assert.ok(!isNearMatch('horses', 'houses'));
+  assert.ok(!isNearMatch('a brown horse', 'a brown house'));
+  assert.ok(isNearMatch('brown horse', 'brown hourse')); // Still fine when one side is no word at all
+});
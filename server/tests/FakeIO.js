@@ -0,0 +1,67 @@
+// Stand-in for the socket.io server in tests. Sockets join rooms like the
+// real thing, and every emit is recorded with the socket it reached.
+
+class FakeSocket {
+  constructor(io, id, address) {
+    this.io = io;
+    this.id = id;
+    this.rooms = new Set([id]);
+    this.handshake = { address, headers: {} };
+  }
+
+  join(room) {
+    this.rooms.add(room);
+  }
+
+  leave(room) {
+    this.rooms.delete(room);
+  }
+
+  emit(event, payload) {
+    this.io.emits.push({ to: this.id, event, payload });
+  }
+}
+
+class FakeIO {
+  constructor() {
+    this.emits = []; // { to, event, payload }, oldest first
+    this.sockets = { sockets: new Map() };
+  }
+
+  socket(id, address = '127.0.0.1') {
+    const socket = new FakeSocket(this, id, address);
+    this.sockets.sockets.set(id, socket);
+    return socket;
+  }
+
+  membersOf(room) {
+    return [...this.sockets.sockets.values()].filter(socket => socket.rooms.has(room));
+  }
+
+  to(room) {
+    return {
+      emit: (event, payload) => {
+        this.membersOf(room).forEach(socket => socket.emit(event, payload));
+      }
+    };
+  }
+
+  in(room) {
+    return {
+      socketsLeave: (leave) => {
+        this.membersOf(room).forEach(socket => socket.leave(leave));
+      }
+    };
+  }
+
+  // Every payload of `event` that reached socket `to`, oldest first
+  received(to, event) {
+    return this.emits.filter(e => e.to === to && e.event === event).map(e => e.payload);
+  }
+
+  last(to, event) {
+    return this.received(to, event).pop();
+  }
+}
+
+module.exports = FakeIO;
@@ -0,0 +1,29 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { setUpGame, startFirstQuestion, submitLies } = require('./scriptedGame');
+
+test('an away player gets no idle vote when voting times out', (t) => {
+  const { game } = setUpGame();
+  t.after(() => game.dispose());
+  startFirstQuestion(game);
+  submitLies(game);
+
+  const alice = game.getPlayerIdBySocket('alice');
+  const caraId = game.getPlayerIdBySocket('cara');
+  game.receiveVote('alice', game.currentLies.find(l => !l.authorIds.includes(alice)).id);
+  game.removePlayer('cara');
+  game.markAway(caraId);
+  assert.strictEqual(game.state, 'VOTING'); // Still waiting on Bob
+
+  game.handleTimerExpired();
+  assert.strictEqual(game.state, 'REVEAL');
+  const cara = game.players.get(caraId);
+  assert.strictEqual(cara.currentVote, null);
+  assert.strictEqual(cara.secondVote, null);
+  assert.ok(game.players.get(game.getPlayerIdBySocket('bob')).currentVote, 'Bob was idle, not away');
+
+  while (!game.isTruthRevealed()) game.nextRevealStep();
+  for (const entry of game.roundResult.players) {
+    assert.ok(!entry.fooled.includes('Cara'), `${entry.name} fooled an away player`);
+  }
+});
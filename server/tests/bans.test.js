@@ -0,0 +1,81 @@
+// Host bans stick to the banned player's session and browser. Their network
+// is only banned when the server opts in: everyone else at the party usually
+// shares it.
+
+const test = require('node:test');
+const assert = require('node:assert');
+const RoomManager = require('../RoomManager');
+const FakeIO = require('./FakeIO');
+
+const memoryStore = { save: async () => {}, remove: async () => {}, loadAll: async () => [] };
+const PARTY_ADDRESS = '192.168.1.20';
+
+function setUpRoom(t) {
+  const io = new FakeIO();
+  const rooms = new RoomManager(io, memoryStore);
+  t.after(() => {
+    clearInterval(rooms.reaperInterval);
+    rooms.rooms.forEach(game => game.dispose());
+  });
+
+  rooms.createRoom(io.socket('host', PARTY_ADDRESS), { narration: false });
+  const { roomCode } = io.last('host', 'room_created');
+  rooms.joinRoom(io.socket('alice', PARTY_ADDRESS), roomCode, 'Alice', null, 'alice-device');
+  rooms.joinRoom(io.socket('bob', PARTY_ADDRESS), roomCode, 'Bob', null, 'bob-device');
+  const alice = io.last('alice', 'player_session');
+  const bob = io.last('bob', 'player_session');
+
+  rooms.handleKickPlayer(io.sockets.sockets.get('host'), roomCode, alice.playerId, true);
+  assert.strictEqual(io.last('alice', 'error').code, 'BANNED');
+  return { io, rooms, roomCode, alice, bob };
+}
+
+test('a ban keeps the banned session out and nobody else on the network', (t) => {
+  const { io, rooms, roomCode, alice, bob } = setUpRoom(t);
+
+  // Alice's saved session is refused
+  rooms.joinRoom(io.socket('alice-again', PARTY_ADDRESS), roomCode, 'Alice', alice.sessionToken, 'alice-device');
+  assert.strictEqual(io.last('alice-again', 'error').code, 'BANNED');
+
+  // Bob gets his seat back and a newcomer gets one, all from the same address
+  rooms.joinRoom(io.socket('bob-again', PARTY_ADDRESS), roomCode, 'Bob', bob.sessionToken, 'bob-device');
+  assert.strictEqual(io.last('bob-again', 'player_session').playerId, bob.playerId);
+  rooms.joinRoom(io.socket('cara', PARTY_ADDRESS), roomCode, 'Cara', null, 'cara-device');
+  assert.ok(io.last('cara', 'player_session'));
+  assert.strictEqual(io.last('cara', 'error'), undefined);
+});
+
+test('a banned player who drops their session token is still refused', (t) => {
+  const { io, rooms, roomCode } = setUpRoom(t);
+
+  rooms.joinRoom(io.socket('alice-fresh', PARTY_ADDRESS), roomCode, 'Alicia', null, 'alice-device');
+  assert.strictEqual(io.last('alice-fresh', 'error').code, 'BANNED');
+  assert.strictEqual(io.last('alice-fresh', 'player_session'), undefined);
+  assert.strictEqual(rooms.rooms.get(roomCode).players.size, 1);
+});
+
+test('with address bans on, newcomers from the address are refused but seated players return', (t) => {
+  const io = new FakeIO();
+  const rooms = new RoomManager(io, memoryStore);
+  rooms.banByAddress = true;
+  t.after(() => {
+    clearInterval(rooms.reaperInterval);
+    rooms.rooms.forEach(game => game.dispose());
+  });
+
+  rooms.createRoom(io.socket('host', '10.0.0.1'), { narration: false });
+  const { roomCode } = io.last('host', 'room_created');
+  rooms.joinRoom(io.socket('alice', PARTY_ADDRESS), roomCode, 'Alice', null, 'alice-device');
+  rooms.joinRoom(io.socket('bob', PARTY_ADDRESS), roomCode, 'Bob', null, 'bob-device');
+  const alice = io.last('alice', 'player_session');
+  const bob = io.last('bob', 'player_session');
+  rooms.handleKickPlayer(io.sockets.sockets.get('host'), roomCode, alice.playerId, true);
+
+  // A new browser on Alice's address is refused
+  rooms.joinRoom(io.socket('alice-other', PARTY_ADDRESS), roomCode, 'Alicia', null, 'other-device');
+  assert.strictEqual(io.last('alice-other', 'error').code, 'BANNED');
+
+  // Bob's seat isn't caught by the address ban
+  rooms.joinRoom(io.socket('bob-again', PARTY_ADDRESS), roomCode, 'Bob', bob.sessionToken, 'bob-device');
+  assert.strictEqual(io.last('bob-again', 'player_session').playerId, bob.playerId);
+});
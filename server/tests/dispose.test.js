@@ -0,0 +1,19 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { setUpGame, playToReveal } = require('./scriptedGame');
+
+test('dispose cancels pending away and reveal timers and refuses new ones', () => {
+  const { game } = setUpGame();
+  playToReveal(game);
+  game.removePlayer('cara'); // Starts her away timer
+  assert.ok(game.revealTimer);
+  assert.strictEqual(game.scheduler.pendingCount, 2);
+
+  game.dispose();
+  assert.strictEqual(game.scheduler.pendingCount, 0);
+  assert.strictEqual(game.scheduler.setTimeout(() => assert.fail('a disposed game ran a timer'), 0), null);
+
+  // A reveal step still in flight can't schedule the next one
+  game.nextRevealStep();
+  assert.strictEqual(game.scheduler.pendingCount, 0);
+});
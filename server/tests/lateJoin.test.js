@@ -0,0 +1,18 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { setUpGame, startFirstQuestion } = require('./scriptedGame');
+
+test('a late joiner who leaves the queue drops off everyone\'s screen', (t) => {
+  const { io, game } = setUpGame();
+  t.after(() => game.dispose());
+  game.settings = { ...game.settings, allowLateJoin: true };
+  startFirstQuestion(game);
+
+  io.socket('dan').join('TEST');
+  assert.ok(game.addPlayer('dan', 'Dan', null));
+  assert.deepStrictEqual(io.last('host', 'game_state').queuedPlayers, ['Dan']);
+
+  game.removePlayer('dan');
+  assert.deepStrictEqual(io.last('host', 'game_state').queuedPlayers, []);
+  assert.deepStrictEqual(io.last('alice', 'game_state').queuedPlayers, []);
+});
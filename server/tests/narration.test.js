@@ -0,0 +1,32 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { setUpGame, playToReveal } = require('./scriptedGame');
+
+// Stands in for GeminiService: numbers every line it is asked to say
+function fakeNarrator() {
+  let turnsSent = 0;
+  return { isConnected: true, sendContext: () => ++turnsSent, disconnect: () => {} };
+}
+
+test('a narration line that finishes late does not move the reveal on', (t) => {
+  const { io, game } = setUpGame({ narration: true });
+  t.after(() => game.dispose());
+  game.gemini = fakeNarrator();
+  playToReveal(game);
+
+  const staleTurn = game.narrationTurn;
+  game.nextRevealStep(); // The host skipped ahead while that line was still playing
+  const revealTimer = game.revealTimer;
+  assert.ok(game.narrationTurn > staleTurn);
+  const completions = io.received('host', 'audio_complete').length;
+
+  game.handleNarrationComplete(staleTurn);
+  assert.strictEqual(game.revealTimer, revealTimer);
+  assert.ok(game.awaitingNarration);
+  assert.strictEqual(io.received('host', 'audio_complete').length, completions);
+
+  game.handleNarrationComplete(game.narrationTurn);
+  assert.notStrictEqual(game.revealTimer, revealTimer);
+  assert.ok(!game.awaitingNarration);
+  assert.strictEqual(io.received('host', 'audio_complete').length, completions + 1);
+});
@@ -0,0 +1,124 @@
+// Everything the server emits during a scripted game has to be a server
+// event from shared/protocol.json, with the payload shape protocol.json gives
+// it. The client's types are generated from the same shapes, and the last
+// test makes sure the generated file is current.
+
+const test = require('node:test');
+const assert = require('node:assert');
+const fs = require('fs');
+const RoomManager = require('../RoomManager');
+const { SERVER_EVENTS } = require('../protocol');
+const protocol = require('../../shared/protocol.json');
+const { renderProtocolTypes, OUTPUT_FILE } = require('../../shared/generateProtocolTypes');
+const FakeIO = require('./FakeIO');
+
+// Where `value` strays from `shape`, as a list of "path: problem" strings.
+// Shapes are described in shared/generateProtocolTypes.js.
+function mismatches(value, shape, path) {
+  if (shape === null) return value === undefined ? [] : [`${path}: expected no payload`];
+  if (shape === 'binary') return []; // Narrator audio; nothing to check
+  if (typeof shape === 'string') {
+    const named = protocol.types[shape];
+    if (named) return mismatches(value, named.fields || { oneOf: named.oneOf }, path);
+    const ok = shape === 'number' ? Number.isFinite(value) : typeof value === shape;
+    return ok ? [] : [`${path}: expected ${shape}, got ${JSON.stringify(value)}`];
+  }
+  if (shape.optional) return value === undefined ? [] : mismatches(value, shape.optional, path);
+  if (shape.nullable) return value === null ? [] : mismatches(value, shape.nullable, path);
+  if (shape.oneOf) return shape.oneOf.includes(value) ? [] : [`${path}: unexpected ${JSON.stringify(value)}`];
+  if (shape.arrayOf) {
+    if (!Array.isArray(value)) return [`${path}: expected an array`];
+    return value.flatMap((item, i) => mismatches(item, shape.arrayOf, `${path}[${i}]`));
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return [`${path}: expected an object`];
+  if (shape.recordOf) {
+    return Object.entries(value).flatMap(([key, item]) => mismatches(item, shape.recordOf, `${path}.${key}`));
+  }
+  const unknown = Object.keys(value).filter(key => !(key in shape)).map(key => `${path}.${key}: not in the protocol`);
+  return [...unknown, ...Object.entries(shape).flatMap(([key, field]) => mismatches(value[key], field, `${path}.${key}`))];
+}
+
+test('the generated client types match protocol.json', () => {
+  assert.strictEqual(fs.readFileSync(OUTPUT_FILE, 'utf8'), renderProtocolTypes(protocol),
+    'shared/protocol.types.ts is stale; run `npm run generate:protocol` from the project root');
+});
+
+test('every emit in a scripted game is a server event with its protocol shape', (t) => {
+  const io = new FakeIO();
+  const rooms = new RoomManager(io, { save: async () => {}, remove: async () => {}, loadAll: async () => [] });
+  t.after(() => {
+    clearInterval(rooms.reaperInterval);
+    [...rooms.rooms.keys()].forEach(roomCode => rooms.destroyRoom(roomCode));
+  });
+
+  const host = io.socket('host');
+  rooms.createRoom(host, { narration: false, maxPlayers: 3 });
+  const { roomCode } = io.last('host', 'room_created');
+  const game = rooms.rooms.get(roomCode);
+  const join = (socketId, name, sessionToken) => rooms.joinRoom(io.socket(socketId), roomCode, name, sessionToken);
+  const playerId = socketId => game.getPlayerIdBySocket(socketId);
+
+  // Lobby: players, a taken name, an audience member past the cap, a bad setting
+  join('alice', 'Alice');
+  join('alice-twin', 'Alice');
+  join('bob', 'Bob');
+  join('cara', 'Cara');
+  join('viewer', 'Viewer');
+  rooms.joinRoom(io.socket('lost'), 'ZZZZ', 'Lost');
+  rooms.handleUpdateSettings(host, roomCode, { rounds: 'many' });
+  rooms.handleNext(io.sockets.sockets.get('bob'), roomCode);
+  rooms.handleRenamePlayer(host, roomCode, playerId('cara'), 'Carla');
+
+  // Lie input: timer controls, a truthful lie, a suggestion and a struck lie
+  rooms.handleNext(host, roomCode);
+  rooms.handleNext(host, roomCode);
+  rooms.handlePauseTimer(host, roomCode);
+  rooms.handleAddTime(host, roomCode, 30);
+  rooms.handleResumeTimer(host, roomCode);
+  rooms.handleQuestionControl(host, roomCode, 'void');
+  const question = game.questions[game.currentQuestionIndex];
+  rooms.handleLie(io.sockets.sockets.get('alice'), roomCode, question.correctAnswer);
+  rooms.handleLie(io.sockets.sockets.get('alice'), roomCode, 'a purple walrus');
+  rooms.handleLieSuggestions(io.sockets.sockets.get('bob'), roomCode);
+  rooms.handleSuggestedLie(io.sockets.sockets.get('bob'), roomCode, game.players.get(playerId('bob')).lieSuggestions[0]);
+  rooms.handleStrikeLie(host, roomCode, playerId('alice'));
+  rooms.handleLie(io.sockets.sockets.get('cara'), roomCode, 'seven tiny umbrellas');
+  assert.strictEqual(game.state, 'VOTING');
+
+  // Voting and the reveal, then void the question and move on
+  rooms.handleAudienceVote(io.sockets.sockets.get('viewer'), roomCode, game.currentLies[0].id);
+  for (const socketId of ['alice', 'bob', 'cara']) {
+    const option = game.currentLies.find(l => !l.authorIds.includes(playerId(socketId)));
+    rooms.handleLike(io.sockets.sockets.get(socketId), roomCode, option.id);
+    rooms.handleVote(io.sockets.sockets.get(socketId), roomCode, option.id);
+  }
+  assert.strictEqual(game.state, 'REVEAL');
+  while (!game.isTruthRevealed()) game.nextRevealStep();
+  rooms.handleQuestionControl(host, roomCode, 'void');
+  rooms.handleNext(host, roomCode);
+  rooms.handleNext(host, roomCode);
+  assert.strictEqual(game.state, 'LIE_INPUT');
+
+  // Moderation, a host that leaves and comes back, then the room closes
+  rooms.handleKickPlayer(host, roomCode, playerId('bob'), false);
+  const cara = io.last('cara', 'player_session');
+  rooms.handleKickPlayer(host, roomCode, cara.playerId, true);
+  join('cara-again', 'Carla', cara.sessionToken);
+  rooms.handleDisconnect(host);
+  rooms.resumeHost(io.socket('host-again'), roomCode, game.hostToken);
+  rooms.destroyRoom(roomCode);
+
+  const seen = new Set(io.emits.map(e => e.event));
+  for (const event of ['room_created', 'player_session', 'audience_joined', 'audience_state', 'game_state', 'timer_sync', 'lie_struck', 'round_result', 'error']) {
+    assert.ok(seen.has(event), `the script never produced ${event}`);
+  }
+  const codes = new Set(io.emits.filter(e => e.event === 'error').map(e => e.payload.code));
+  for (const code of ['NAME_TAKEN', 'ROOM_NOT_FOUND', 'INVALID_SETTINGS', 'NOT_HOST', 'ACTION_FAILED', 'LIE_REJECTED', 'KICKED', 'BANNED', 'ROOM_CLOSED']) {
+    assert.ok(codes.has(code), `the script never produced a ${code} error`);
+  }
+
+  for (const { to, event, payload } of io.emits) {
+    assert.ok(SERVER_EVENTS.includes(event), `${event} (to ${to}) is not a server event`);
+    assert.deepStrictEqual(mismatches(payload, protocol.serverEvents[event], event), [], `${event} to ${to}`);
+  }
+});
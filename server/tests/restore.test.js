@@ -0,0 +1,21 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const Game = require('../Game');
+const FakeIO = require('./FakeIO');
+const { setUpGame, startFirstQuestion } = require('./scriptedGame');
+
+test('a restored room resumes its phase from the full duration', (t) => {
+  const { game } = setUpGame();
+  startFirstQuestion(game);
+  game.addTime(30);
+  const snapshot = game.toSnapshot();
+  snapshot.timer.remainingMs = 1000; // Saved just before the phase ran out
+  game.dispose();
+
+  const restored = Game.fromSnapshot(new FakeIO(), snapshot);
+  t.after(() => restored.dispose());
+  assert.strictEqual(restored.state, 'LIE_INPUT');
+  assert.strictEqual(restored.phaseDurationMs, game.phaseDurationMs);
+  assert.strictEqual(restored.remainingMs, restored.phaseDurationMs);
+  assert.ok(restored.timerPaused);
+});
@@ -0,0 +1,27 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { setUpGame, playToReveal } = require('./scriptedGame');
+
+test('a host that comes back gets the current breakdown with its state', (t) => {
+  const { io, game } = setUpGame();
+  t.after(() => game.dispose());
+  playToReveal(game);
+  while (!game.isTruthRevealed()) game.nextRevealStep();
+  game.endReveal();
+  assert.strictEqual(game.voidQuestion(), null);
+
+  game.detachHost();
+  io.socket('host-again').join('TEST');
+  game.attachHost('host-again');
+  const hostView = io.last('host-again', 'game_state');
+  assert.strictEqual(hostView.state, 'MINI_SCOREBOARD');
+  assert.strictEqual(hostView.roundResult.question, game.roundResult.question);
+  assert.ok(hostView.roundResult.voided);
+
+  // Players keep getting the breakdown through round_result only
+  assert.strictEqual(io.last('alice', 'game_state').roundResult, undefined);
+
+  // The next question starts without one
+  game.nextState();
+  assert.strictEqual(io.last('host-again', 'game_state').roundResult, null);
+});
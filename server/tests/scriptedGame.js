@@ -0,0 +1,60 @@
+// A three-player game with a host and one audience member on a FakeIO,
+// plus the moves that push it through a question.
+
+const assert = require('node:assert');
+const Game = require('../Game');
+const { DEFAULT_SETTINGS } = require('../GameSettings');
+const FakeIO = require('./FakeIO');
+
+const PLAYERS = { alice: 'Alice', bob: 'Bob', cara: 'Cara' }; // socketId -> name
+const LIES = { alice: 'a purple walrus', bob: 'seven tiny umbrellas', cara: 'the moon landing' };
+
+function setUpGame(settings = {}) {
+  const io = new FakeIO();
+  const game = new Game(io, 'TEST', 'host', { ...DEFAULT_SETTINGS, narration: false, ...settings });
+  io.socket('host').join('TEST');
+  for (const [socketId, name] of Object.entries(PLAYERS)) {
+    io.socket(socketId).join('TEST');
+    assert.ok(game.addPlayer(socketId, name, null));
+  }
+  io.socket('viewer').join(game.getAudienceChannel());
+  game.addAudienceMember('viewer', 'Viewer');
+  return { io, game };
+}
+
+// From the lobby to the first question's lie input
+function startFirstQuestion(game) {
+  game.nextState(); // Round intro
+  game.nextState();
+  assert.strictEqual(game.state, 'LIE_INPUT');
+}
+
+function submitLies(game) {
+  for (const [socketId, lie] of Object.entries(LIES)) game.receiveLie(socketId, lie);
+  assert.strictEqual(game.state, 'VOTING');
+}
+
+// Every player votes for the first option they didn't write, which starts the reveal
+function voteAll(game) {
+  for (const socketId of Object.keys(PLAYERS)) {
+    const playerId = game.getPlayerIdBySocket(socketId);
+    game.receiveVote(socketId, game.currentLies.find(l => !l.authorIds.includes(playerId)).id);
+  }
+  assert.strictEqual(game.state, 'REVEAL');
+}
+
+function playToReveal(game) {
+  startFirstQuestion(game);
+  submitLies(game);
+  voteAll(game);
+}
+
+module.exports = {
+  PLAYERS,
+  LIES,
+  setUpGame,
+  startFirstQuestion,
+  submitLies,
+  voteAll,
+  playToReveal
+};
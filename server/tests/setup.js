@@ -0,0 +1,11 @@
+// Loaded ahead of every test file by the test script, so nothing a test
+// does (like voiding a question) ends up in the real files under data/
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+if (!process.env.QUESTION_FEEDBACK_FILE) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fibbage-tests-'));
+  process.env.QUESTION_FEEDBACK_FILE = path.join(dir, 'question_feedback.json');
+  process.env.ROOM_STORE_DIR = path.join(dir, 'rooms');
+}
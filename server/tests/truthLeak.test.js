@@ -0,0 +1,84 @@
+// Nothing that gives the truth or a lie's author away may reach a player,
+// the audience or the host before the reveal gets to that option.
+
+const test = require('node:test');
+const assert = require('node:assert');
+const { PLAYERS, setUpGame, startFirstQuestion, submitLies, voteAll, playToReveal } = require('./scriptedGame');
+
+const SECRET_FIELDS = ['isTruth', 'author', 'likes', 'voters'];
+
+// Every state snapshot sent to anyone, whatever view they get
+function sentStates(io) {
+  return io.emits
+    .filter(e => e.event === 'game_state' || e.event === 'audience_state')
+    .map(e => ({ to: e.to, state: e.payload }));
+}
+
+function assertNothingLeaks(io) {
+  for (const { to, state } of sentStates(io)) {
+    const truthShown = state.lies.some(lie => lie.isTruth);
+    if (!truthShown && state.currentQuestion) {
+      assert.strictEqual(state.currentQuestion.answer, null, `${to} saw the answer in ${state.state}`);
+    }
+    if (!truthShown) assert.ok(!state.roundResult, `${to} saw the scores in ${state.state}`);
+    for (const lie of state.lies) {
+      if (state.revealedIds.includes(lie.id)) continue;
+      for (const field of SECRET_FIELDS) {
+        assert.ok(!(field in lie), `${to} saw "${field}" of ${lie.id} in ${state.state}`);
+      }
+    }
+  }
+}
+
+test('lie input, voting and the reveal keep every secret until its reveal step', (t) => {
+  const { io, game } = setUpGame();
+  t.after(() => game.dispose());
+
+  startFirstQuestion(game);
+  submitLies(game);
+  game.receiveAudienceVote('viewer', game.currentLies[0].id);
+  game.toggleLike('alice', game.currentLies.find(l => !l.authorIds.length).id);
+  voteAll(game);
+
+  // Step through to the truth rather than waiting on the reveal timer
+  while (!game.isTruthRevealed()) game.nextRevealStep();
+
+  const states = sentStates(io);
+  for (const recipient of ['host', 'viewer', ...Object.keys(PLAYERS)]) {
+    assert.ok(states.some(({ to, state }) => to === recipient && state.state === 'VOTING'), `${recipient} never saw voting`);
+  }
+  assertNothingLeaks(io);
+
+  // Once it is out, the truth does reach everyone
+  const hostView = io.last('host', 'game_state');
+  assert.ok(hostView.currentQuestion.answer);
+  assert.ok(hostView.lies.find(l => l.id === game.truthId).isTruth);
+});
+
+test('options that are not revealed yet stay anonymous mid-reveal', (t) => {
+  const { io, game } = setUpGame();
+  t.after(() => game.dispose());
+
+  playToReveal(game);
+
+  const playerView = io.last('bob', 'game_state');
+  assert.strictEqual(playerView.state, 'REVEAL');
+  assert.strictEqual(playerView.revealedIds.length, 1);
+  assert.strictEqual(playerView.currentQuestion.answer, null);
+  assertNothingLeaks(io);
+});
+
+test('voiding mid-reveal waits for the truth instead of scoring early', (t) => {
+  const { io, game } = setUpGame();
+  t.after(() => game.dispose());
+
+  playToReveal(game);
+
+  assert.strictEqual(game.voidQuestion(), 'Only a revealed question can be voided');
+  assert.strictEqual(io.last('alice', 'round_result'), undefined);
+  assertNothingLeaks(io);
+
+  while (!game.isTruthRevealed()) game.nextRevealStep();
+  assert.strictEqual(game.voidQuestion(), null);
+  assert.ok(io.last('alice', 'round_result').voided);
+});
@@ -0,0 +1,26 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { validatePayload } = require('../protocol');
+const RoomManager = require('../RoomManager');
+const FakeIO = require('./FakeIO');
+
+test('names that are blank once trimmed are refused', () => {
+  assert.strictEqual(validatePayload('join_player', { roomCode: 'ABCD', playerName: '   ' }), '"playerName" can\'t be blank');
+  assert.strictEqual(validatePayload('join_player', { roomCode: 'ABCD', playerName: '' }), '"playerName" can\'t be blank');
+  assert.strictEqual(validatePayload('rename_player', { roomCode: 'ABCD', playerId: 'p1', name: ' \t ' }), '"name" can\'t be blank');
+  assert.strictEqual(validatePayload('join_player', { roomCode: 'ABCD', playerName: ' Bo ' }), null);
+});
+
+test('players join under their trimmed name', (t) => {
+  const io = new FakeIO();
+  const rooms = new RoomManager(io, { save: async () => {}, remove: async () => {}, loadAll: async () => [] });
+  t.after(() => {
+    clearInterval(rooms.reaperInterval);
+    [...rooms.rooms.keys()].forEach(roomCode => rooms.destroyRoom(roomCode));
+  });
+
+  rooms.createRoom(io.socket('host'), { narration: false });
+  const { roomCode } = io.last('host', 'room_created');
+  rooms.joinRoom(io.socket('bo'), roomCode, '  Bo  ');
+  assert.strictEqual(io.last('bo', 'player_session').name, 'Bo');
+});
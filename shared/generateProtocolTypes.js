@@ -0,0 +1,124 @@
+// Writes protocol.types.ts, the TypeScript side of the payload shapes in
+// protocol.json. Run `npm run generate:protocol` from the project root after
+// editing protocol.json; a server test fails while the two are out of step.
+//
+// A shape is one of:
+//   "string", "number", "boolean"   a plain value
+//   "binary"                        raw bytes (ArrayBuffer)
+//   "GameState"                     a type from protocol.json's "types"
+//   { "field": <shape>, ... }       an object with exactly these fields
+//   { "optional": <shape> }         an object field that may be left out
+//   { "nullable": <shape> }         <shape> or null
+//   { "arrayOf": <shape> }          an array of <shape>
+//   { "recordOf": <shape> }         an object with any keys, values of <shape>
+//   { "oneOf": ["a", "b"] }         one of these strings
+//   { "partial": "GameSettings" }   any subset of a type's fields
+// A named type is { "oneOf": [...] } or { "fields": {...} }, with an
+// optional "doc" comment and per-field "notes".
+
+const fs = require('fs');
+const path = require('path');
+
+const OUTPUT_FILE = path.join(__dirname, 'protocol.types.ts');
+const PLAIN_TYPES = { string: 'string', number: 'number', boolean: 'boolean', binary: 'ArrayBuffer' };
+const WRAPPERS = ['optional', 'nullable', 'arrayOf', 'recordOf', 'oneOf', 'partial'];
+
+// The wrapper a shape uses, or null for a plain object of fields
+function wrapperOf(shape) {
+  const keys = Object.keys(shape);
+  return keys.length === 1 && WRAPPERS.includes(keys[0]) ? keys[0] : null;
+}
+
+function renderShape(shape, types) {
+  if (typeof shape === 'string') {
+    if (PLAIN_TYPES[shape]) return PLAIN_TYPES[shape];
+    if (!types[shape]) throw new Error(`Unknown type "${shape}" in protocol.json`);
+    return shape;
+  }
+  switch (wrapperOf(shape)) {
+    case 'optional':
+      throw new Error('"optional" only goes directly on an object field');
+    case 'nullable':
+      return `${renderShape(shape.nullable, types)} | null`;
+    case 'arrayOf': {
+      const item = renderShape(shape.arrayOf, types);
+      return item.includes(' | ') && !item.startsWith('{') ? `(${item})[]` : `${item}[]`;
+    }
+    case 'recordOf':
+      return `Record<string, ${renderShape(shape.recordOf, types)}>`;
+    case 'oneOf':
+      return shape.oneOf.map(value => `'${value}'`).join(' | ');
+    case 'partial':
+      return `Partial<${renderShape(shape.partial, types)}>`;
+    default:
+      return `{ ${renderFields(shape, types).join('; ')} }`;
+  }
+}
+
+function renderFields(fields, types) {
+  return Object.entries(fields).map(([name, shape]) => {
+    const optional = typeof shape === 'object' && wrapperOf(shape) === 'optional';
+    return `${name}${optional ? '?' : ''}: ${renderShape(optional ? shape.optional : shape, types)}`;
+  });
+}
+
+// A doc comment, wrapped to keep lines short
+function renderDoc(doc) {
+  const lines = [];
+  for (const word of doc.split(' ')) {
+    const last = lines.length - 1;
+    if (last >= 0 && lines[last].length + word.length < 78) lines[last] += ` ${word}`;
+    else lines.push(`// ${word}`);
+  }
+  return lines;
+}
+
+function renderType(name, type, types) {
+  const lines = type.doc ? renderDoc(type.doc) : [];
+  if (type.oneOf && type.oneOf.length <= 8) {
+    lines.push(`export type ${name} = ${renderShape(type, types)};`);
+    return lines.join('\n');
+  }
+  if (type.oneOf) {
+    lines.push(`export type ${name} =`, ...type.oneOf.map(value => `  | '${value}'`));
+    lines[lines.length - 1] += ';';
+    return lines.join('\n');
+  }
+  const notes = type.notes || {};
+  lines.push(`export interface ${name} {`);
+  renderFields(type.fields, types).forEach((field, i) => {
+    const note = notes[Object.keys(type.fields)[i]];
+    lines.push(`  ${field};${note ? ` // ${note}` : ''}`);
+  });
+  lines.push('}');
+  return lines.join('\n');
+}
+
+function renderEvents(name, events, notes, types) {
+  const lines = [`export interface ${name} {`];
+  Object.entries(events).forEach(([event, shape]) => {
+    if (notes[event]) lines.push(`  // ${notes[event]}`);
+    const params = shape === null ? '' : `payload: ${renderShape(shape, types)}`;
+    lines.push(`  ${event}: (${params}) => void;`);
+  });
+  lines.push('}');
+  return lines.join('\n');
+}
+
+function renderProtocolTypes(protocol) {
+  const { types } = protocol;
+  return [
+    '// Generated from protocol.json by generateProtocolTypes.js. Do not edit by hand.',
+    ...Object.entries(types).map(([name, type]) => renderType(name, type, types)),
+    renderEvents('ServerToClientEvents', protocol.serverEvents, {}, types),
+    renderEvents('ClientToServerEvents', protocol.clientEvents, protocol.clientEventNotes, types)
+  ].join('\n\n') + '\n';
+}
+
+if (require.main === module) {
+  const protocol = JSON.parse(fs.readFileSync(path.join(__dirname, 'protocol.json'), 'utf8'));
+  fs.writeFileSync(OUTPUT_FILE, renderProtocolTypes(protocol));
+  console.log(`Wrote ${path.relative(process.cwd(), OUTPUT_FILE)}`);
+}
+
+module.exports = { renderProtocolTypes, OUTPUT_FILE };
@@ -0,0 +1,18 @@
+/**
+ * Socket protocol shared by the client and the server
+ *
+ * Every event either side may emit, with the shape of its payload, is
+ * defined once in protocol.json. The types below are generated from it
+ * (see generateProtocolTypes.js), and server/protocol.js checks inbound
+ * payloads against the same shapes at runtime.
+ */
+
+import protocol from './protocol.json';
+
+export type * from './protocol.types';
+
+// Bumped on any breaking change; the server turns away clients on another version
+export const PROTOCOL_VERSION: number = protocol.version;
+
+// Longest room code, player name and lie the server accepts
+export const TEXT_LIMITS: { roomCodeLength: number; nameLength: number; lieLength: number } = protocol.limits;
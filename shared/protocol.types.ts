@@ -0,0 +1,251 @@
+// Generated from protocol.json by generateProtocolTypes.js. Do not edit by hand.
+
+export type GamePhase = 'LOBBY' | 'ROUND_INTRO' | 'LIE_INPUT' | 'VOTING' | 'REVEAL' | 'MINI_SCOREBOARD' | 'SCOREBOARD';
+
+export type ContentRating = 'family' | 'standard' | 'spicy';
+
+export type ContentFilter = 'off' | 'family' | 'strict';
+
+export type LateJoinScore = 'zero' | 'lowest' | 'average';
+
+export type IdleVote = 'random' | 'abstain';
+
+export interface GameSettings {
+  rounds: number;
+  questionsPerRound: number;
+  includeFinalFibbage: boolean;
+  lieInputSeconds: number;
+  votingSeconds: number;
+  truthPoints: number;
+  foolPoints: number;
+  likePoints: number;
+  maxPlayers: number;
+  audiencePoints: number;
+  roundMultipliers: number[];
+  finalMultiplier: number;
+  categories: string[];
+  contentRating: ContentRating;
+  contentFilter: ContentFilter;
+  narration: boolean;
+  idleVote: IdleVote;
+  allowLateJoin: boolean;
+  lateJoinScore: LateJoinScore;
+}
+
+export interface Player {
+  id: string;
+  name: string;
+  score: number;
+  hasLied: boolean;
+  hasVoted: boolean;
+  likesReceived: number;
+  away: boolean;
+}
+
+// Truth and authorship are only sent once the reveal reaches the option
+export interface Lie {
+  id: string;
+  text: string;
+  isMine?: boolean;
+  likedByMe?: boolean;
+  isTruth?: boolean;
+  author?: string;
+  suggested?: boolean; // Picked from the house's "Lie For Me" suggestions
+  likes?: number;
+  voters?: { name: string; pick: 'first' | 'second' }[]; // 'second' only in the Final Fibbage
+}
+
+export interface Question {
+  text: string;
+  spokenText?: string;
+  category: string;
+  answer: string | null; // Only once the truth is revealed
+}
+
+// A player as listed in the moderation drawer; `lie` is only filled in during
+// LIE_INPUT
+export interface ModerationEntry {
+  id: string;
+  name: string;
+  lie: string | null;
+  struck: boolean;
+  queued: boolean;
+}
+
+// A name or lie the content filter blocked; `word` arrives masked ("f***")
+export interface FilterHit {
+  field: 'name' | 'lie';
+  playerName: string | null; // null for a name someone tried to join with
+  word: string;
+  time: number;
+}
+
+// Audience votes are only tallied once the reveal starts
+export interface AudienceSummary {
+  count: number;
+  tally: Record<string, number> | null;
+  pickId: string | null;
+}
+
+// What a player's own game_state adds about them
+export interface PlayerView {
+  id: string;
+  queued?: boolean; // Joined mid-game; seated when the next question starts
+  lie: string;
+  voteId: string | null;
+  secondVoteId: string | null;
+  lieSuggestions: string[];
+}
+
+// Every recipient gets its own projection: the host adds its moderation view,
+// players add `me`, and `lies` only holds what the recipient may see
+export interface GameState {
+  state: GamePhase;
+  players: Player[];
+  currentQuestion: Question | null;
+  lies: Lie[];
+  round: string;
+  roundNumber: number;
+  roundMultiplier: number;
+  questionInRound: number;
+  questionsInRound: number;
+  totalRounds: number;
+  isFinalFibbage: boolean;
+  truthPoints: number;
+  foolPoints: number;
+  settings: GameSettings;
+  totalQuestions: number;
+  currentRevealId: string | null;
+  revealedIds: string[];
+  autoProgress: boolean;
+  hostConnected: boolean;
+  audience: AudienceSummary;
+  queuedPlayers: string[]; // Late joiners seated at the next question
+  availableCategories?: string[]; // Host only
+  moderation?: ModerationEntry[]; // Host only
+  filterLog?: FilterHit[]; // Host only
+  roundResult?: RoundResult | null; // Host only: the current question's breakdown, once scored
+  me?: PlayerView; // Players only
+}
+
+// Per-question scoring breakdown sent once the truth is revealed
+export interface PlayerResult {
+  playerId: string;
+  name: string;
+  foundTruth: boolean;
+  truthPoints: number;
+  fooled: string[];
+  foolPoints: number;
+  bonuses: { type: 'likes' | 'audience'; points: number; count?: number }[];
+  totalPoints: number;
+  scoreBefore: number;
+  scoreAfter: number;
+  rankBefore: number;
+  rankAfter: number;
+}
+
+export interface RoundResult {
+  questionNumber: number;
+  roundNumber: number;
+  isFinalFibbage: boolean;
+  question: string;
+  truth: string;
+  players: PlayerResult[];
+  voided?: boolean; // The host took this question's points back
+}
+
+export interface PlayerSession {
+  roomCode: string;
+  playerId: string;
+  name: string;
+  sessionToken: string;
+}
+
+// The current phase countdown; all durations in milliseconds
+export interface PhaseTimer {
+  deadline: number | null; // Server timestamp; null while paused
+  remainingMs: number;
+  totalMs: number;
+  paused: boolean;
+}
+
+// Every error the server reports; each page maps these to a recovery path
+export type ErrorCode =
+  | 'ROOM_NOT_FOUND'
+  | 'ROOM_CLOSED'
+  | 'ROOM_FULL'
+  | 'GAME_IN_PROGRESS'
+  | 'NAME_TAKEN'
+  | 'NAME_REJECTED'
+  | 'LIE_REJECTED'
+  | 'KICKED'
+  | 'BANNED'
+  | 'NOT_HOST'
+  | 'INVALID_SETTINGS'
+  | 'ACTION_FAILED'
+  | 'INVALID_PAYLOAD'
+  | 'RATE_LIMITED'
+  | 'SERVER_ERROR';
+
+// Which fields are set depends on the code
+export interface ErrorDetails {
+  roomCode?: string; // ROOM_NOT_FOUND, ROOM_CLOSED
+  reason?: 'HOST_LEFT' | 'IDLE' | 'TRUTH' | 'TAKEN' | 'CONTENT'; // ROOM_CLOSED, NAME_REJECTED, LIE_REJECTED
+  name?: string; // NAME_TAKEN, NAME_REJECTED
+  limit?: number; // ROOM_FULL
+  errors?: string[]; // INVALID_SETTINGS
+  action?: 'replace' | 'skip' | 'void' | 'rename'; // ACTION_FAILED
+  event?: string; // INVALID_PAYLOAD, RATE_LIMITED, SERVER_ERROR: the event that was dropped
+}
+
+export interface GameError {
+  code: ErrorCode;
+  message: string; // Ready to show as-is
+  details: ErrorDetails;
+}
+
+export interface ServerToClientEvents {
+  pong: () => void;
+  clock_sync: (payload: { clientTime: number; serverTime: number }) => void;
+  room_created: (payload: { roomCode: string; hostToken: string }) => void;
+  room_check_result: (payload: { roomCode: string; active: boolean }) => void;
+  player_session: (payload: PlayerSession) => void;
+  audience_joined: (payload: { roomCode: string; name: string }) => void;
+  audience_state: (payload: GameState) => void;
+  game_state: (payload: GameState) => void;
+  timer_sync: (payload: PhaseTimer) => void;
+  lie_struck: (payload: { message: string }) => void;
+  round_result: (payload: RoundResult) => void;
+  audio_chunk: (payload: ArrayBuffer) => void;
+  audio_complete: () => void;
+  error: (payload: GameError) => void;
+}
+
+export interface ClientToServerEvents {
+  ping: () => void;
+  clock_sync: (payload: { clientTime: number }) => void;
+  // Stored credentials come straight from localStorage, so they may be null
+  join_host: (payload: { roomCode?: string | null; hostToken?: string | null; settings?: Partial<GameSettings> }) => void;
+  join_player: (payload: { roomCode: string; playerName: string; sessionToken?: string | null; deviceId?: string | null }) => void;
+  check_room: (payload: { roomCode: string }) => void;
+  submit_lie: (payload: { roomCode: string; lie: string }) => void;
+  request_lie_suggestions: (payload: { roomCode: string }) => void;
+  submit_lie_suggestion: (payload: { roomCode: string; suggestion: string }) => void;
+  // Final Fibbage votes send `picks` instead of a choiceId
+  submit_vote: (payload: { roomCode: string; choiceId?: string; picks?: { first: string; second: string } }) => void;
+  submit_audience_vote: (payload: { roomCode: string; choiceId: string }) => void;
+  toggle_like: (payload: { roomCode: string; lieId: string }) => void;
+  request_next: (payload: { roomCode: string }) => void;
+  update_settings: (payload: { roomCode: string; settings: Partial<GameSettings> }) => void;
+  set_auto_progress: (payload: { roomCode: string; enabled: boolean }) => void;
+  set_late_join: (payload: { roomCode: string; enabled: boolean }) => void;
+  pause_timer: (payload: { roomCode: string }) => void;
+  resume_timer: (payload: { roomCode: string }) => void;
+  add_time: (payload: { roomCode: string; seconds: number }) => void;
+  replace_question: (payload: { roomCode: string }) => void;
+  skip_question: (payload: { roomCode: string }) => void;
+  void_question: (payload: { roomCode: string }) => void;
+  kick_player: (payload: { roomCode: string; playerId: string; ban?: boolean }) => void;
+  rename_player: (payload: { roomCode: string; playerId: string; name: string }) => void;
+  strike_lie: (payload: { roomCode: string; playerId: string }) => void;
+}